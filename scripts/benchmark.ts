@@ -0,0 +1,235 @@
+/**
+ * Measures how well identification survives noise, level changes, cropping, filtering, speed
+ * changes and reverb, so changes to the extraction algorithm can be compared.
+ *
+ * References come from a directory of WAV files or are synthesised from `--seed`. Everything runs
+ * against a throwaway database, so no server, `.env` or existing library is needed.
+ *
+ * @example pnpm benchmark --references ./samples --distractors ./other-samples --output report.json
+ */
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import { createClient } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+
+import { createRandom, type RandomSource } from "~/lib/distortions";
+import {
+  clipFromFile,
+  clipFromSamples,
+  DEFAULT_SCENARIOS,
+  generateReferenceSamples,
+  runBenchmark,
+  type BenchmarkClip,
+  type BenchmarkReport,
+} from "~/server/audio/benchmark";
+import * as schema from "~/server/db/schema";
+
+// The ESM build of drizzle-kit's API makes dynamic requires that fail outside a bundler
+const { pushSQLiteSchema } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+const SUPPORTED_EXTENSIONS = new Set([".wav", ".wave"]);
+const SYNTHETIC_SAMPLE_RATE = 44100;
+
+async function loadClips(directory: string): Promise<BenchmarkClip[]> {
+  const entries = await readdir(directory, {
+    recursive: true,
+    withFileTypes: true,
+  });
+  const files = entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .filter((file) => SUPPORTED_EXTENSIONS.has(path.extname(file).toLowerCase()))
+    .sort();
+
+  return await Promise.all(
+    files.map(async (file) =>
+      clipFromFile(path.relative(directory, file), new Uint8Array(await readFile(file)))
+    )
+  );
+}
+
+function synthesizeClips(
+  prefix: string,
+  count: number,
+  duration: number,
+  random: RandomSource
+): BenchmarkClip[] {
+  return Array.from({ length: count }, (_, i) =>
+    clipFromSamples(
+      `${prefix} ${i + 1}`,
+      generateReferenceSamples(duration, SYNTHETIC_SAMPLE_RATE, random),
+      SYNTHETIC_SAMPLE_RATE
+    )
+  );
+}
+
+function parsePositive(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number, got ${value}`);
+  }
+  return number;
+}
+
+function parseCount(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got ${value}`);
+  }
+  return number;
+}
+
+function formatShare(value: number | null): string {
+  return value === null ? "–" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+function formatTable(report: BenchmarkReport): string {
+  const header = ["Scenario", "Precision", "Recall", "Top-1", "False pos.", "p50 ms", "p95 ms"];
+  const rows = report.scenarios.map((result) => [
+    result.scenario,
+    formatShare(result.precision),
+    formatShare(result.recall),
+    formatShare(result.top1Accuracy),
+    `${result.falsePositives}/${report.distractors}`,
+    formatMs(result.latency.p50),
+    formatMs(result.latency.p95),
+  ]);
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]!.length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) =>
+        column === 0 ? cell.padEnd(widths[0]!) : cell.padStart(widths[column]!)
+      )
+      .join("  ");
+
+  return [
+    `${report.references} references, ${report.distractors} distractors, ` +
+      `${report.queryDuration}s queries, max false-positive rate ${report.maxFalsePositiveRate}`,
+    "",
+    formatRow(header),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(formatRow),
+    "",
+  ].join("\n");
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      references: { type: "string" },
+      distractors: { type: "string" },
+      count: { type: "string", default: "20" },
+      "distractor-count": { type: "string", default: "10" },
+      duration: { type: "string", default: "15" },
+      "query-duration": { type: "string", default: "5" },
+      "max-false-positive-rate": { type: "string", default: "0.01" },
+      seed: { type: "string", default: "1" },
+      scenario: { type: "string", multiple: true },
+      format: { type: "string" },
+      output: { type: "string" },
+    },
+  });
+
+  const seed = Number(values.seed);
+  const maxFalsePositiveRate = Number(values["max-false-positive-rate"]);
+  if (!Number.isInteger(seed)) throw new Error(`--seed must be an integer, got ${values.seed}`);
+  if (!(maxFalsePositiveRate >= 0 && maxFalsePositiveRate <= 1)) {
+    throw new Error(
+      `--max-false-positive-rate must be between 0 and 1, got ${values["max-false-positive-rate"]}`
+    );
+  }
+  // Reports written to a .json file default to JSON
+  const format = values.format ?? (values.output?.endsWith(".json") ? "json" : "table");
+  if (format !== "table" && format !== "json") {
+    throw new Error(`--format must be table or json, got ${values.format}`);
+  }
+
+  const scenarios = values.scenario
+    ? DEFAULT_SCENARIOS.filter((scenario) => values.scenario!.includes(scenario.name))
+    : DEFAULT_SCENARIOS;
+  if (scenarios.length === 0) {
+    throw new Error(
+      `No matching scenarios; choose from: ${DEFAULT_SCENARIOS.map((s) => s.name).join(", ")}`
+    );
+  }
+
+  const duration = parsePositive("duration", values.duration);
+  const random = createRandom(seed);
+  const references = values.references
+    ? await loadClips(path.resolve(values.references))
+    : synthesizeClips("Reference", parseCount("count", values.count), duration, random);
+  // Synthetic distractors only make sense next to synthetic references
+  const distractors = values.distractors
+    ? await loadClips(path.resolve(values.distractors))
+    : values.references
+      ? []
+      : synthesizeClips(
+          "Distractor",
+          parseCount("distractor-count", values["distractor-count"]),
+          duration,
+          random
+        );
+  if (references.length === 0) throw new Error("No reference clips to enroll");
+
+  const directory = await mkdtemp(path.join(tmpdir(), "soundprint-benchmark-"));
+  // A file rather than :memory:, since libsql opens a separate connection for each transaction
+  const client = createClient({
+    url: `file:${path.join(directory, "benchmark.sqlite")}`,
+  });
+  try {
+    const db = drizzle(client, { schema });
+    await (await pushSQLiteSchema(schema, db)).apply();
+
+    // Progress goes to stderr, keeping stdout for the report
+    console.error(
+      `Enrolling ${references.length} references, querying with ${distractors.length} distractors`
+    );
+    const report = await runBenchmark(db, {
+      references,
+      distractors,
+      scenarios,
+      queryDuration: parsePositive("query-duration", values["query-duration"]),
+      maxFalsePositiveRate,
+      seed,
+      onProgress: (result) => console.error(`  ✓ ${result.scenario}`),
+    });
+
+    const output = format === "json" ? `${JSON.stringify(report, null, 2)}\n` : formatTable(report);
+    if (values.output) {
+      await writeFile(values.output, output);
+      console.error(`Wrote ${values.output}`);
+    } else {
+      process.stdout.write(`\n${output}`);
+    }
+
+    // Fail the run when distractors match more often than the false-positive rate allows
+    const uncalibrated = report.scenarios.filter((result) => !result.calibrated);
+    if (uncalibrated.length > 0) {
+      console.error(
+        `More false positives than a rate of ${maxFalsePositiveRate} explains in: ` +
+          uncalibrated.map((result) => result.scenario).join(", ")
+      );
+      process.exitCode = 1;
+    }
+  } finally {
+    client.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,23 @@
+/**
+ * Converts the text timestamps of fingerprints enrolled before timestamps were stored as epoch
+ * seconds. `db:push` only changes the column default, so run this once after it when upgrading a
+ * database from before then. Running it again does nothing.
+ *
+ * @example pnpm db:convert-timestamps
+ */
+import { client, db } from "~/server/db";
+import { convertLegacyTimestamps } from "~/server/db/timestamps";
+
+async function main() {
+  const converted = await convertLegacyTimestamps(db);
+  console.log(
+    `Converted ${converted.createdAt} creation and ${converted.updatedAt} update timestamps`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => client.close());
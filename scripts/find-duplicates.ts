@@ -0,0 +1,59 @@
+/**
+ * Checks every fingerprint in the library against the rest through the hash index and records the
+ * duplicate pairs it finds, which the duplicates page groups into clusters.
+ *
+ * Progress is saved after every batch. If a previous scan was interrupted, it is resumed after the
+ * last fingerprint it handled unless `--restart` is given.
+ *
+ * @example pnpm library:duplicates --batch-size 50
+ */
+import { parseArgs } from "node:util";
+
+import {
+  createDuplicateScan,
+  findResumableDuplicateScan,
+  runDuplicateScan,
+} from "~/server/audio/duplicates";
+import { client, db } from "~/server/db";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "batch-size": { type: "string", default: "25" },
+      restart: { type: "boolean", default: false },
+    },
+  });
+
+  const batchSize = Number(values["batch-size"]);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`--batch-size must be a positive integer, got ${values["batch-size"]}`);
+  }
+
+  const resumable = values.restart ? undefined : await findResumableDuplicateScan(db);
+  const scan = resumable ?? (await createDuplicateScan(db));
+  console.log(
+    resumable
+      ? `Resuming duplicate scan ${scan.id} after fingerprint ${scan.lastFingerprintId}`
+      : `Started duplicate scan ${scan.id} of ${scan.total} fingerprints`
+  );
+
+  const result = await runDuplicateScan(db, scan.id, {
+    batchSize,
+    onProgress: (progress) => {
+      console.log(`Scanned ${progress.scanned + progress.failed}/${scan.total}`);
+    },
+  });
+
+  console.log(`\nScanned ${result.scanned}, failed ${result.failed}`);
+  if (result.lastError) console.log(`  Last error: ${result.lastError}`);
+  console.log("Review the clusters on the /duplicates page");
+
+  if (result.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => client.close());
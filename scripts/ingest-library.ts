@@ -0,0 +1,150 @@
+/**
+ * Enrolls every supported audio file under a directory into `audio_fingerprints`.
+ *
+ * Entries are named after their path relative to the directory (without the extension), and files
+ * whose content hash is already stored are skipped, so the command can be re-run safely.
+ *
+ * @example pnpm library:ingest ./samples --batch-size 50 --channel-strategy mid-side
+ */
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+  DEFAULT_CHANNEL_STRATEGY,
+  formatChannelStrategy,
+  parseChannelStrategy,
+} from "~/lib/channels";
+import {
+  findExistingContentHashes,
+  insertFingerprints,
+  type NewFingerprint,
+} from "~/server/audio/fingerprints";
+import { analyzeAudioUpload, hashAudioContent } from "~/server/audio/ingest";
+import { client, db } from "~/server/db";
+
+const SUPPORTED_EXTENSIONS = new Set([".wav", ".wave"]);
+
+interface IngestSummary {
+  ingested: number;
+  skipped: number;
+  failed: { file: string; error: string }[];
+}
+
+async function findAudioFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .filter((file) => SUPPORTED_EXTENSIONS.has(path.extname(file).toLowerCase()))
+    .sort();
+}
+
+function entryName(directory: string, file: string): string {
+  const relative = path.relative(directory, file);
+  return relative.slice(0, -path.extname(relative).length).split(path.sep).join("/");
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "batch-size": { type: "string", default: "25" },
+      "channel-strategy": {
+        type: "string",
+        default: formatChannelStrategy(DEFAULT_CHANNEL_STRATEGY),
+      },
+    },
+  });
+
+  const [directoryArg] = positionals;
+  const batchSize = Number(values["batch-size"]);
+  const channelStrategy = parseChannelStrategy(values["channel-strategy"]);
+
+  if (!directoryArg) {
+    throw new Error("Usage: library:ingest <directory> [--batch-size N] [--channel-strategy S]");
+  }
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`--batch-size must be a positive integer, got ${values["batch-size"]}`);
+  }
+  if (!channelStrategy) {
+    throw new Error(`Unknown channel strategy: ${values["channel-strategy"]}`);
+  }
+
+  const directory = path.resolve(directoryArg);
+  const files = await findAudioFiles(directory);
+  console.log(`Found ${files.length} audio files in ${directory}`);
+
+  const summary: IngestSummary = { ingested: 0, skipped: 0, failed: [] };
+  // Also catches identical files within the same run
+  const seenHashes = new Set<string>();
+
+  for (let start = 0; start < files.length; start += batchSize) {
+    const batchFiles = files.slice(start, start + batchSize);
+    const contents = await Promise.all(
+      batchFiles.map(async (file) => {
+        const bytes = new Uint8Array(await readFile(file));
+        return { file, bytes, contentHash: hashAudioContent(bytes) };
+      })
+    );
+    const existing = await findExistingContentHashes(
+      db,
+      contents.map((content) => content.contentHash)
+    );
+
+    const batch: NewFingerprint[] = [];
+    for (const { file, bytes, contentHash } of contents) {
+      if (existing.has(contentHash) || seenHashes.has(contentHash)) {
+        summary.skipped++;
+        continue;
+      }
+      seenHashes.add(contentHash);
+
+      try {
+        const analysis = analyzeAudioUpload({ bytes, fields: {} }, channelStrategy);
+        batch.push({
+          name: entryName(directory, file),
+          fingerprint: analysis.fingerprint,
+          duration: Math.round(analysis.duration),
+          sourceFilename: path.relative(directory, file),
+          sampleRate: analysis.sampleRate,
+          channelCount: analysis.channelCount,
+          analysisSampleRate: analysis.analysisSampleRate,
+          algorithmVersion: analysis.algorithmVersion,
+          algorithmParameters: analysis.algorithmParameters,
+          channelStrategy: formatChannelStrategy(channelStrategy),
+          contentHash,
+          audio: { bytes, mimeType: "audio/wav" },
+        });
+      } catch (error) {
+        summary.failed.push({
+          file: path.relative(directory, file),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (batch.length > 0) {
+      const records = await insertFingerprints(db, batch);
+      summary.ingested += records.length;
+    }
+    console.log(`Processed ${Math.min(start + batchSize, files.length)}/${files.length}`);
+  }
+
+  console.log(
+    `\nIngested ${summary.ingested}, skipped ${summary.skipped} already ingested, ` +
+      `failed ${summary.failed.length}`
+  );
+  for (const { file, error } of summary.failed) {
+    console.log(`  ✗ ${file}: ${error}`);
+  }
+
+  if (summary.failed.length > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => client.close());
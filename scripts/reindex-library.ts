@@ -0,0 +1,70 @@
+/**
+ * Regenerates fingerprints and extra reference recordings made by an older extraction algorithm
+ * from their stored audio.
+ *
+ * Progress is saved after every batch. If a previous run was interrupted, it is resumed after the
+ * last fingerprint it handled unless `--restart` is given.
+ *
+ * @example pnpm library:reindex --batch-size 50
+ */
+import { parseArgs } from "node:util";
+
+import {
+  countStaleFingerprints,
+  createReindexJob,
+  findResumableReindexJob,
+  runReindexJob,
+} from "~/server/audio/reindex";
+import { client, db } from "~/server/db";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "batch-size": { type: "string", default: "25" },
+      restart: { type: "boolean", default: false },
+    },
+  });
+
+  const batchSize = Number(values["batch-size"]);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`--batch-size must be a positive integer, got ${values["batch-size"]}`);
+  }
+
+  const resumable = values.restart ? undefined : await findResumableReindexJob(db);
+  if (!resumable && (await countStaleFingerprints(db)) === 0) {
+    console.log("Every fingerprint is up to date");
+    return;
+  }
+
+  const job = resumable ?? (await createReindexJob(db));
+  const handled = () => job.reindexed + job.skipped + job.unsupported + job.failed;
+  console.log(
+    resumable
+      ? `Resuming reindex job ${job.id} after fingerprint ${job.lastFingerprintId} and ` +
+          `recording ${job.lastRecordingId}`
+      : `Started reindex job ${job.id} for ${job.total} outdated fingerprints and recordings`
+  );
+
+  const result = await runReindexJob(db, job.id, {
+    batchSize,
+    onProgress: (progress) => {
+      Object.assign(job, progress);
+      console.log(`Processed ${handled()}/${job.total}`);
+    },
+  });
+
+  console.log(
+    `\nReindexed ${result.reindexed}, skipped ${result.skipped} without stored audio, ` +
+      `unsupported ${result.unsupported} in a format that can't be decoded, failed ${result.failed}`
+  );
+  if (result.lastError) console.log(`  Last error: ${result.lastError}`);
+
+  if (result.unsupported > 0 || result.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => client.close());
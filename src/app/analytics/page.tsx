@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+
+const RANGES = [7, 30, 90] as const;
+
+function formatRate(part: number, total: number) {
+  return total === 0 ? "–" : `${Math.round((part / total) * 100)}%`;
+}
+
+function formatLatency(ms: number | null) {
+  return ms === null ? "–" : `${Math.round(ms)} ms`;
+}
+
+export default function AnalyticsPage() {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(30);
+  const analytics = api.audio.getIdentificationAnalytics.useQuery({ days });
+  const data = analytics.data;
+
+  const stats = data
+    ? [
+        { label: "Queries", value: String(data.queries) },
+        { label: "No-match rate", value: formatRate(data.noMatches, data.queries) },
+        { label: "Latency p50", value: formatLatency(data.latency.p50) },
+        { label: "Latency p90", value: formatLatency(data.latency.p90) },
+        { label: "Latency p99", value: formatLatency(data.latency.p99) },
+      ]
+    : [];
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="relative w-full max-w-4xl space-y-8 rounded-2xl bg-white/5 p-12 backdrop-blur-xl">
+        {/* Background decoration */}
+        <div className="absolute inset-0 -z-10 overflow-hidden rounded-2xl">
+          <div className="absolute -top-40 -left-40 h-80 w-80 rounded-full bg-purple-500/20 blur-3xl" />
+          <div className="absolute -bottom-40 -right-40 h-80 w-80 rounded-full bg-indigo-500/20 blur-3xl" />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <motion.h1
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.5 }}
+            className="text-4xl font-bold text-white"
+          >
+            Analytics
+          </motion.h1>
+          <Link href="/">
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+                Back to Home
+              </Button>
+            </motion.div>
+          </Link>
+        </div>
+
+        <div className="flex space-x-2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              onClick={() => setDays(range)}
+              className={
+                range === days
+                  ? "bg-indigo-600 hover:bg-indigo-700"
+                  : "bg-white/10 hover:bg-white/20 text-white border border-white/10"
+              }
+            >
+              Last {range} days
+            </Button>
+          ))}
+        </div>
+
+        {analytics.isLoading && (
+          <div className="flex items-center justify-center space-x-2 text-white">
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500" />
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-100" />
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-200" />
+            <span>Loading analytics...</span>
+          </div>
+        )}
+
+        {analytics.error && (
+          <div className="rounded-lg bg-red-500/10 p-4 text-red-500 border border-red-500/20">
+            {analytics.error.message}
+          </div>
+        )}
+
+        {data?.queries === 0 && (
+          <p className="text-center text-white/70">
+            No identification queries in this period yet.
+          </p>
+        )}
+
+        {data && data.queries > 0 && (
+          <div className="space-y-8">
+            <div className="grid gap-4 sm:grid-cols-5">
+              {stats.map((stat) => (
+                <div key={stat.label} className="rounded-xl bg-white/5 p-4 text-center">
+                  <div className="text-2xl font-bold text-white">{stat.value}</div>
+                  <div className="text-sm text-white/50">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold text-white">No-match rate by day</h2>
+              <div className="flex h-40 items-end space-x-1 rounded-xl bg-white/5 p-4">
+                {data.daily.map((entry) => {
+                  const rate = entry.queries === 0 ? 0 : entry.noMatches / entry.queries;
+                  return (
+                    <div
+                      key={entry.day}
+                      title={`${entry.day}: ${formatRate(entry.noMatches, entry.queries)} of ${entry.queries} queries unmatched`}
+                      className="flex h-full flex-1 items-end"
+                    >
+                      <div
+                        className="w-full rounded-t bg-red-500/60"
+                        style={{ height: `${Math.max(rate * 100, 1)}%` }}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-xs text-white/50">
+                <span>{data.daily[0]?.day}</span>
+                <span>{data.daily[data.daily.length - 1]?.day}</span>
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold text-white">Most matched sounds</h2>
+              {data.mostMatched.length === 0 ? (
+                <p className="text-white/70">No query has matched a sound yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {data.mostMatched.map((sound) => (
+                    <li
+                      key={sound.id}
+                      className="flex items-center justify-between rounded-lg bg-white/5 px-4 py-2 text-white"
+                    >
+                      <span className="truncate">{sound.name}</span>
+                      <span className="text-sm text-white/70">
+                        {sound.matches} matches • {formatRate(sound.averageSimilarity ?? 0, 1)} avg
+                        similarity
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold text-white">By algorithm version</h2>
+              <table className="w-full text-left text-white">
+                <thead className="text-sm text-white/50">
+                  <tr>
+                    <th className="py-2">Version</th>
+                    <th className="py-2">Queries</th>
+                    <th className="py-2">No-match rate</th>
+                    <th className="py-2">Avg top similarity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.byAlgorithmVersion.map((version) => (
+                    <tr key={version.algorithmVersion} className="border-t border-white/10">
+                      <td className="py-2">v{version.algorithmVersion}</td>
+                      <td className="py-2">{version.queries}</td>
+                      <td className="py-2">{formatRate(version.noMatches, version.queries)}</td>
+                      <td className="py-2">
+                        {version.averageSimilarity === null
+                          ? "–"
+                          : formatRate(version.averageSimilarity, 1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
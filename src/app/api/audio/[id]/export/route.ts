@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+import { formatFeatureExport } from "@/lib/export";
+import { db } from "@/server/db";
+import { exportStoredFeatures, exportStoredWav } from "@/server/audio/export";
+import { audioErrorResponse } from "@/server/audio/ingest";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const idSchema = z.coerce.number().int().positive();
+
+const exportFieldsSchema = z.object({
+  format: z.enum(["wav", "json"]).optional().default("wav"),
+  // WAV only: the stored audio's own rate and 16-bit PCM unless given
+  sampleRate: z.coerce.number().int().min(8000).max(192000).optional(),
+  sampleFormat: z.enum(["pcm8", "pcm16", "pcm24", "pcm32", "float32"]).optional(),
+  // One of the entry's extra reference recordings instead of its own audio
+  recording: idSchema.optional(),
+});
+
+function attachment(fileName: string, contentType: string): Headers {
+  return new Headers({
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+  });
+}
+
+/**
+ * Downloads the stored audio of an entry as a WAV file, at any sample rate and bit depth, or the
+ * features its fingerprint is made from as JSON (`format=json`). Only entries stored as WAV can be
+ * exported; other formats are answered with `415`.
+ *
+ * @example
+ * curl -OJ "http://localhost:3000/api/audio/1/export?sampleRate=48000&sampleFormat=pcm24"
+ *
+ * @example
+ * curl -OJ "http://localhost:3000/api/audio/1/export?format=json"
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const id = idSchema.parse((await params).id);
+    const { format, recording, ...options } = exportFieldsSchema.parse(
+      Object.fromEntries(new URL(req.url).searchParams)
+    );
+
+    if (format === "json") {
+      const { analysis, fileName } = await exportStoredFeatures(db, id, recording ?? null);
+      return new Response(formatFeatureExport(analysis), {
+        headers: attachment(fileName, "application/json"),
+      });
+    }
+
+    const { bytes, fileName } = await exportStoredWav(db, id, recording ?? null, {
+      sampleRate: options.sampleRate,
+      format: options.sampleFormat,
+    });
+    return new Response(bytes, { headers: attachment(fileName, "audio/wav") });
+  } catch (error) {
+    return audioErrorResponse(error);
+  }
+}
@@ -0,0 +1,115 @@
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import {
+  attachAudio,
+  attachRecordingAudio,
+  getFingerprintAudio,
+  getRecordingAudio,
+} from "@/server/audio/fingerprints";
+import { audioErrorResponse, readAudioUpload } from "@/server/audio/ingest";
+import {
+  getStoredAudioSize,
+  normalizeMimeType,
+  resolveStoredAudio,
+} from "@/server/audio/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const idSchema = z.coerce.number().int().positive();
+
+// `?recording=<id>` addresses one of the entry's extra reference recordings
+function parseRecordingId(req: Request): number | null {
+  const recording = new URL(req.url).searchParams.get("recording");
+  return recording === null ? null : idSchema.parse(recording);
+}
+
+/**
+ * Parses a single-range `Range: bytes=...` header into inclusive byte offsets. Returns null for
+ * ranges that can't be satisfied; multi-range requests are answered with the first range only.
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * Streams the original audio of a fingerprint or one of its reference recordings, honouring
+ * `Range` requests so players can seek without downloading the whole file.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const id = idSchema.parse((await params).id);
+    const recordingId = parseRecordingId(req);
+    const audio =
+      recordingId === null
+        ? await getFingerprintAudio(db, id)
+        : await getRecordingAudio(db, id, recordingId);
+    const size = await getStoredAudioSize(audio.file);
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+      "Content-Type": audio.mimeType,
+      "Cache-Control": "private, max-age=3600",
+    });
+
+    const rangeHeader = req.headers.get("range");
+    const range = rangeHeader ? parseRange(rangeHeader, size) : { start: 0, end: size - 1 };
+    if (!range) {
+      headers.set("Content-Range", `bytes */${size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    if (rangeHeader) {
+      headers.set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    }
+
+    const stream = createReadStream(resolveStoredAudio(audio.file), range);
+    return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      status: rangeHeader ? 206 : 200,
+      headers,
+    });
+  } catch (error) {
+    return audioErrorResponse(error);
+  }
+}
+
+/**
+ * Stores the original audio of an existing fingerprint or reference recording, for recordings
+ * fingerprinted in the browser. Accepts the same multipart or raw bodies as the enroll route.
+ *
+ * @example curl -T door.wav -H "Content-Type: audio/wav" http://localhost:3000/api/audio/1/file
+ */
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const id = idSchema.parse((await params).id);
+    const recordingId = parseRecordingId(req);
+    const upload = await readAudioUpload(req);
+    const audio = { bytes: upload.bytes, mimeType: normalizeMimeType(upload.mimeType) };
+
+    return Response.json(
+      recordingId === null
+        ? await attachAudio(db, id, audio)
+        : await attachRecordingAudio(db, id, recordingId, audio)
+    );
+  } catch (error) {
+    return audioErrorResponse(error);
+  }
+}
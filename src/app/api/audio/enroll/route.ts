@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+import {
+  DEFAULT_CHANNEL_STRATEGY,
+  formatChannelStrategy,
+  parseChannelStrategy,
+} from "@/lib/channels";
+import { db } from "@/server/db";
+import { enrollFingerprint, type DuplicateResolution } from "@/server/audio/duplicates";
+import { analyzeAudioUpload, audioErrorResponse, readAudioUpload } from "@/server/audio/ingest";
+
+const enrollFieldsSchema = z
+  .object({
+    name: z.string().trim().min(1).max(256),
+    description: z.string().trim().max(2000).optional(),
+    category: z.string().trim().min(1).max(64).optional(),
+    // Comma-separated, since form fields and query parameters are flat strings
+    tags: z
+      .string()
+      .optional()
+      .transform((value) => value?.split(",") ?? []),
+    channelStrategy: z
+      .string()
+      .optional()
+      .default(formatChannelStrategy(DEFAULT_CHANNEL_STRATEGY))
+      .transform((value, ctx) => {
+        const strategy = parseChannelStrategy(value);
+        if (!strategy) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Unknown channel strategy" });
+          return z.NEVER;
+        }
+        return strategy;
+      }),
+    onDuplicate: z.enum(["check", "save", "attach"]).optional().default("check"),
+    attachTo: z.coerce.number().int().positive().optional(),
+  })
+  .transform(({ onDuplicate, attachTo, ...fields }, ctx) => {
+    let duplicates: DuplicateResolution;
+    if (onDuplicate !== "attach") {
+      duplicates = { action: onDuplicate };
+    } else if (attachTo !== undefined) {
+      duplicates = { action: "attach", attachTo };
+    } else {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["attachTo"],
+        message: "Required to attach the recording to an entry",
+      });
+      return z.NEVER;
+    }
+    return { ...fields, duplicates };
+  });
+
+/**
+ * Enrolls an audio file without a browser. The name comes from the `name` field, falling back to
+ * the uploaded file name; `channelStrategy` picks how multichannel files are fingerprinted
+ * (`mono`, `mid-side`, `per-channel` or `channel-<index>`). `description`, `category` and
+ * comma-separated `tags` fields are stored as metadata.
+ *
+ * Sounds that match an existing entry are rejected with 409 and the list of `duplicates`. Send
+ * `onDuplicate=save` to enroll them anyway, or `onDuplicate=attach&attachTo=<id>` to add the file
+ * as an extra reference recording of that entry.
+ *
+ * @example curl -F file=@door.wav -F name="Door slam" http://localhost:3000/api/audio/enroll
+ */
+export async function POST(req: Request) {
+  try {
+    const upload = await readAudioUpload(req);
+    const { channelStrategy, duplicates, ...metadata } = enrollFieldsSchema.parse({
+      ...upload.fields,
+      name: upload.fields.name ?? upload.fileName?.replace(/\.[^.]+$/, ""),
+    });
+    const analysis = analyzeAudioUpload(upload, channelStrategy);
+
+    const result = await enrollFingerprint(
+      db,
+      {
+        ...metadata,
+        fingerprint: analysis.fingerprint,
+        duration: Math.round(analysis.duration),
+        sourceFilename: upload.fileName,
+        sampleRate: analysis.sampleRate,
+        channelCount: analysis.channelCount,
+        analysisSampleRate: analysis.analysisSampleRate,
+        algorithmVersion: analysis.algorithmVersion,
+        algorithmParameters: analysis.algorithmParameters,
+        channelStrategy: formatChannelStrategy(channelStrategy),
+        contentHash: analysis.contentHash,
+        // Uploads are always WAV, whatever Content-Type the client sent
+        audio: { bytes: upload.bytes, mimeType: "audio/wav" },
+      },
+      duplicates
+    );
+
+    switch (result.status) {
+      case "created":
+        return Response.json(result.fingerprint, { status: 201 });
+      case "attached":
+        return Response.json(result.recording, { status: 201 });
+      case "duplicate":
+        return Response.json(
+          { error: "Possible duplicate of existing entries", duplicates: result.duplicates },
+          { status: 409 }
+        );
+    }
+  } catch (error) {
+    return audioErrorResponse(error);
+  }
+}
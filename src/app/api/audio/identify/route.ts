@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import { listChannelStrategies } from "@/server/audio/fingerprints";
+import { identifyAndRecord } from "@/server/audio/history";
+import { analyzeQueryUpload, audioErrorResponse, readAudioUpload } from "@/server/audio/ingest";
+
+const identifyFieldsSchema = z.object({
+  maxFalsePositiveRate: z.coerce.number().min(0).max(1).optional().default(0.01),
+  minSimilarity: z.coerce.number().min(0).max(1).optional(),
+  staleReferences: z.enum(["exclude", "downweight"]).optional().default("downweight"),
+  // Either one turns on a scale search, with the other change defaulting to none
+  maxPitchChange: z.coerce.number().min(0).max(0.2).optional(),
+  maxTempoChange: z.coerce.number().min(0).max(0.2).optional(),
+});
+
+/**
+ * Identifies an audio file without a browser and returns the same matches as
+ * `audio.identifyAudio`.
+ *
+ * @example
+ * curl --data-binary @clip.wav -H "Content-Type: audio/wav" \
+ *   "http://localhost:3000/api/audio/identify?maxFalsePositiveRate=0.001"
+ *
+ * @example
+ * # Also match clips sped up or slowed down by up to 5%
+ * curl --data-binary @clip.wav -H "Content-Type: audio/wav" \
+ *   "http://localhost:3000/api/audio/identify?maxPitchChange=0.05&maxTempoChange=0.05"
+ */
+export async function POST(req: Request) {
+  try {
+    const upload = await readAudioUpload(req);
+    const { maxPitchChange, maxTempoChange, ...fields } = identifyFieldsSchema.parse(upload.fields);
+    const { fingerprint, strategyFingerprints, duration } = analyzeQueryUpload(
+      upload,
+      await listChannelStrategies(db)
+    );
+    const scaleSearch =
+      maxPitchChange === undefined && maxTempoChange === undefined
+        ? undefined
+        : { maxPitchChange: maxPitchChange ?? 0, maxTempoChange: maxTempoChange ?? 0 };
+
+    const matches = await identifyAndRecord(
+      db,
+      { fingerprint, strategyFingerprints, scaleSearch, ...fields },
+      { source: "api", queryDuration: duration }
+    );
+
+    return Response.json(matches);
+  } catch (error) {
+    return audioErrorResponse(error);
+  }
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { formatConfidence, formatTimestamp } from "~/lib/utils";
+
+export default function DuplicatesPage() {
+  // Entry each cluster is merged into, keyed by the cluster's oldest member; defaults to that member
+  const [targets, setTargets] = useState<Record<number, number>>({});
+  const [mergingCluster, setMergingCluster] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const report = api.audio.getDuplicateReport.useQuery();
+  const scan = report.data?.scan;
+  const clusters = report.data?.clusters ?? [];
+
+  const mergeFingerprints = api.audio.mergeFingerprints.useMutation();
+
+  const mergeCluster = async (key: number, targetId: number, sourceIds: number[], name: string) => {
+    const entries = sourceIds.length === 1 ? "1 entry" : `${sourceIds.length} entries`;
+    if (!window.confirm(`Merge ${entries} into "${name}"? This cannot be undone.`)) return;
+
+    setError(null);
+    setMergingCluster(key);
+    try {
+      for (const sourceId of sourceIds) {
+        await mergeFingerprints.mutateAsync({ targetId, sourceId });
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to merge entries");
+    } finally {
+      setMergingCluster(null);
+      await Promise.all([
+        utils.audio.getDuplicateReport.invalidate(),
+        utils.audio.listFingerprints.invalidate(),
+      ]);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="relative w-full max-w-4xl space-y-8 rounded-2xl bg-white/5 p-12 backdrop-blur-xl">
+        {/* Background decoration */}
+        <div className="absolute inset-0 -z-10 overflow-hidden rounded-2xl">
+          <div className="absolute -top-40 -left-40 h-80 w-80 rounded-full bg-purple-500/20 blur-3xl" />
+          <div className="absolute -bottom-40 -right-40 h-80 w-80 rounded-full bg-indigo-500/20 blur-3xl" />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <motion.h1
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.5 }}
+            className="text-4xl font-bold text-white"
+          >
+            Duplicates
+          </motion.h1>
+          <Link href="/library">
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+                Back to Library
+              </Button>
+            </motion.div>
+          </Link>
+        </div>
+
+        {report.isLoading && (
+          <div className="flex items-center justify-center space-x-2 text-white">
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500" />
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-100" />
+            <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-200" />
+            <span>Loading report...</span>
+          </div>
+        )}
+
+        {report.error && (
+          <div className="rounded-lg bg-red-500/10 p-4 text-red-500 border border-red-500/20">
+            {report.error.message}
+          </div>
+        )}
+
+        {report.data && (
+          <div className="rounded-lg bg-white/5 p-4 text-white/70 border border-white/10">
+            {!scan ? (
+              <>No duplicate scan has been run yet.</>
+            ) : scan.status === "running" ? (
+              <>
+                Scan {scan.id} is running: {scan.scanned + scan.failed}/{scan.total} entries
+                checked. The clusters below are those found so far.
+              </>
+            ) : (
+              <>
+                Scan {scan.id} {scan.status === "completed" ? "finished" : "failed"}{" "}
+                {(scan.completedAt ?? scan.updatedAt).toLocaleString()} after checking{" "}
+                {scan.scanned + scan.failed} of {scan.total} entries
+                {scan.failed > 0 && <> ({scan.failed} failed)</>}.
+              </>
+            )}{" "}
+            Scan the library again with{" "}
+            <code className="rounded bg-white/10 px-1">pnpm library:duplicates</code>.
+          </div>
+        )}
+
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="rounded-lg bg-red-500/10 p-4 text-red-500 border border-red-500/20"
+          >
+            {error}
+          </motion.div>
+        )}
+
+        {scan && clusters.length === 0 && (
+          <p className="text-center text-white/70">No duplicates found.</p>
+        )}
+
+        <ul className="space-y-6">
+          {clusters.map((cluster) => {
+            const key = cluster.members[0]!.id;
+            const targetId = targets[key] ?? key;
+            const target = cluster.members.find((member) => member.id === targetId);
+            const names = new Map(cluster.members.map((member) => [member.id, member.name]));
+
+            return (
+              <motion.li
+                key={key}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-4 rounded-lg bg-white/5 p-4 border border-white/10"
+              >
+                <ul className="space-y-2">
+                  {cluster.members.map((member) => (
+                    <li key={member.id}>
+                      <label className="flex cursor-pointer items-center gap-3 text-white">
+                        <input
+                          type="radio"
+                          name={`target-${key}`}
+                          checked={member.id === targetId}
+                          onChange={() => setTargets({ ...targets, [key]: member.id })}
+                          className="accent-indigo-500"
+                        />
+                        <span className="min-w-0 flex-1 truncate">{member.name}</span>
+                        <span className="shrink-0 text-sm text-white/50">
+                          {formatTimestamp(member.duration)} · added{" "}
+                          {member.createdAt.toLocaleDateString()}
+                          {member.category && <> · {member.category}</>}
+                          {!member.hasAudio && <> · no audio</>}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+
+                <ul className="space-y-1 text-sm text-white/50">
+                  {cluster.pairs.map((pair) => (
+                    <li key={`${pair.fingerprintId}-${pair.duplicateId}`}>
+                      {names.get(pair.fingerprintId)} ↔ {names.get(pair.duplicateId)}:{" "}
+                      {Math.round(pair.similarity * 100)}% match •{" "}
+                      {formatConfidence(pair.falsePositiveRate)} confidence
+                    </li>
+                  ))}
+                </ul>
+
+                {target && (
+                  <Button
+                    onClick={() =>
+                      void mergeCluster(
+                        key,
+                        target.id,
+                        cluster.members
+                          .filter((member) => member.id !== target.id)
+                          .map((member) => member.id),
+                        target.name
+                      )
+                    }
+                    className="bg-indigo-600 hover:bg-indigo-700"
+                    disabled={mergingCluster !== null}
+                  >
+                    {mergingCluster === key ? "Merging..." : `Merge into "${target.name}"`}
+                  </Button>
+                )}
+              </motion.li>
+            );
+          })}
+        </ul>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import WaveSurfer from "wavesurfer.js";
+import { Button } from "~/components/ui/button";
+import { formatTimestamp } from "~/lib/utils";
+
+interface ReferencePlayerProps {
+  fingerprintId: number;
+  /** Extra reference recording of the entry to play instead of its own audio. */
+  recordingId?: number | null;
+  name: string;
+  /** Where playback starts, in seconds into the reference. */
+  startSeconds: number;
+  onClose: () => void;
+}
+
+/**
+ * Plays the stored original of a matched reference, starting where the query was found in it.
+ */
+export function ReferencePlayer({
+  fingerprintId,
+  recordingId,
+  name,
+  startSeconds,
+  onClose,
+}: ReferencePlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    setError(null);
+    const wavesurfer = WaveSurfer.create({
+      container: containerRef.current,
+      url: `/api/audio/${fingerprintId}/file${recordingId ? `?recording=${recordingId}` : ""}`,
+      waveColor: "#4F46E5",
+      progressColor: "#818CF8",
+      cursorColor: "#4F46E5",
+      barWidth: 2,
+      barRadius: 3,
+      cursorWidth: 1,
+      height: 80,
+      barGap: 3,
+    });
+    wavesurferRef.current = wavesurfer;
+
+    wavesurfer.on("ready", () => {
+      wavesurfer.setTime(startSeconds);
+      void wavesurfer.play();
+    });
+    wavesurfer.on("play", () => setIsPlaying(true));
+    wavesurfer.on("pause", () => setIsPlaying(false));
+    wavesurfer.on("error", (err) => {
+      setError("Could not load the reference audio");
+      console.error(err);
+    });
+
+    return () => {
+      wavesurfer.destroy();
+      wavesurferRef.current = null;
+    };
+  }, [fingerprintId, recordingId, startSeconds]);
+
+  return (
+    <div className="space-y-2 rounded-lg bg-white/5 p-4">
+      <div className="flex items-center justify-between text-white">
+        <span>
+          {name} from {formatTimestamp(startSeconds)}
+        </span>
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => void wavesurferRef.current?.playPause()}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            disabled={!!error}
+          >
+            {isPlaying ? "Pause" : "Play"}
+          </Button>
+          <Button
+            onClick={() => wavesurferRef.current?.setTime(startSeconds)}
+            className="bg-white/10 hover:bg-white/20 border border-white/10"
+            disabled={!!error}
+          >
+            Back to match
+          </Button>
+          <Button onClick={onClose} className="bg-white/10 hover:bg-white/20 border border-white/10">
+            Close
+          </Button>
+        </div>
+      </div>
+      <div ref={containerRef} className="w-full" />
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { generateFingerprint } from "~/lib/audio";
+import { addPcmCaptureModule, PCM_CAPTURE_PROCESSOR } from "~/lib/pcm-capture-worklet";
+import { StreamingFeatureExtractor } from "~/lib/streaming";
+import { api } from "~/trpc/react";
+import { type AudioMatch } from "~/types/audio";
+
+// Length of the sliding window each query covers
+const WINDOW_SECONDS = 10;
+const QUERY_INTERVAL_MS = 3000;
+// Don't query until there is enough audio for landmarks to line up
+const MIN_QUERY_SECONDS = 3;
+const MAX_LISTEN_MS = 60000;
+// Partial windows are shown as candidates while listening continues
+const MAX_FALSE_POSITIVE_RATE = 0.05;
+// Listening stops as soon as the best match is at least this unlikely to be chance
+export const LIVE_STOP_FALSE_POSITIVE_RATE = 0.001;
+
+interface ListeningSession {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  extractor: StreamingFeatureExtractor;
+  queryInterval: ReturnType<typeof setInterval>;
+  maxListenTimeout: ReturnType<typeof setTimeout>;
+  querying: boolean;
+}
+
+/**
+ * Streams microphone audio through an AudioWorklet into a `StreamingFeatureExtractor` and queries
+ * `audio.identifyAudio` every few seconds over the latest window, until a confident match is found.
+ */
+export function useLiveIdentification() {
+  const utils = api.useUtils();
+  const sessionRef = useRef<ListeningSession | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [listenedSeconds, setListenedSeconds] = useState(0);
+  const [matches, setMatches] = useState<AudioMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+
+    clearInterval(session.queryInterval);
+    clearTimeout(session.maxListenTimeout);
+    session.stream.getTracks().forEach((track) => track.stop());
+    void session.audioContext.close();
+    setIsListening(false);
+  }, []);
+
+  const query = useCallback(
+    async (session: ListeningSession) => {
+      if (session.querying || session.extractor.duration < MIN_QUERY_SECONDS) return;
+
+      session.querying = true;
+      try {
+        const results = await utils.audio.identifyAudio.fetch({
+          fingerprint: generateFingerprint(session.extractor.getFeatures()),
+          maxFalsePositiveRate: MAX_FALSE_POSITIVE_RATE,
+          source: "live",
+          queryDuration: Math.min(session.extractor.duration, WINDOW_SECONDS),
+        });
+        // The session may have been stopped while the query was in flight
+        if (sessionRef.current !== session) return;
+
+        setMatches(results);
+        if ((results[0]?.falsePositiveRate ?? 1) <= LIVE_STOP_FALSE_POSITIVE_RATE) stop();
+      } catch (err) {
+        setError("Error identifying audio");
+        console.error(err);
+      } finally {
+        session.querying = false;
+      }
+    },
+    [utils, stop]
+  );
+
+  const start = useCallback(async () => {
+    if (sessionRef.current) return;
+    setError(null);
+    setMatches(null);
+    setListenedSeconds(0);
+
+    let stream: MediaStream | undefined;
+    let audioContext: AudioContext | undefined;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Firefox can't connect a microphone to a context at another rate than its own, so the context
+      // runs at the device rate and the extractor resamples
+      audioContext = new AudioContext();
+      await addPcmCaptureModule(audioContext);
+
+      const source = audioContext.createMediaStreamSource(stream);
+      const capture = new AudioWorkletNode(audioContext, PCM_CAPTURE_PROCESSOR);
+      // Route through a muted gain so the graph keeps pulling the worklet without playing it back
+      const mute = audioContext.createGain();
+      mute.gain.value = 0;
+      source.connect(capture).connect(mute).connect(audioContext.destination);
+
+      const extractor = new StreamingFeatureExtractor(WINDOW_SECONDS, audioContext.sampleRate);
+      capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        extractor.push(event.data);
+        setListenedSeconds(extractor.duration);
+      };
+
+      const session: ListeningSession = {
+        stream,
+        audioContext,
+        extractor,
+        queryInterval: setInterval(() => void query(session), QUERY_INTERVAL_MS),
+        maxListenTimeout: setTimeout(stop, MAX_LISTEN_MS),
+        querying: false,
+      };
+      sessionRef.current = session;
+      setIsListening(true);
+    } catch (err) {
+      stream?.getTracks().forEach((track) => track.stop());
+      void audioContext?.close();
+      setError("Error accessing microphone");
+      console.error(err);
+    }
+  }, [query, stop]);
+
+  // Release the microphone when the page unmounts
+  useEffect(() => stop, [stop]);
+
+  return { isListening, listenedSeconds, matches, error, start, stop };
+}
@@ -1,30 +1,103 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import WaveSurfer from "wavesurfer.js";
+import RegionsPlugin from "wavesurfer.js/dist/plugins/regions.esm.js";
 import { api } from "~/trpc/react";
+import { Spectrogram } from "~/components/spectrogram";
 import { Button } from "~/components/ui/button";
-import { extractAudioFeatures, generateFingerprint } from "~/lib/audio";
-import { type AudioFeatures } from "~/types/audio";
+import {
+  extractAudioFeatures,
+  generateFingerprint,
+  generateStrategyFingerprints,
+} from "~/lib/audio";
+import {
+  getAudioBufferChannels,
+  IDENTIFY_CHANNEL_STRATEGY,
+  prepareChannels,
+  queryChannelStrategies,
+} from "~/lib/channels";
+import { type AudioFeatures, type AudioMatch } from "~/types/audio";
+import { formatConfidence, formatTimestamp } from "~/lib/utils";
 import Link from "next/link";
+import {
+  LIVE_STOP_FALSE_POSITIVE_RATE,
+  useLiveIdentification,
+} from "./_hooks/use-live-identification";
+import { ReferencePlayer } from "./_components/reference-player";
+
+// Queries longer than this are also identified window by window, to show where each sound is
+const TIMELINE_MIN_SECONDS = 10;
+// How far pitch and tempo may be off when speed changes are tolerated
+const SCALE_SEARCH_RANGE = 0.05;
 
 export default function IdentifyPage() {
   const [isRecording, setIsRecording] = useState(false);
-  const [audioFeatures, setAudioFeatures] = useState<AudioFeatures | null>(null);
+  const [audioFeatures, setAudioFeatures] = useState<AudioFeatures[] | null>(null);
+  const [duration, setDuration] = useState(0);
+  // The signals the query's features are extracted from, for the spectrogram
+  const [signals, setSignals] = useState<Float32Array[] | null>(null);
+  const [queryChannels, setQueryChannels] = useState<Float32Array[] | null>(null);
+  const [sampleRate, setSampleRate] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsRef = useRef<RegionsPlugin | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const live = useLiveIdentification();
+  const [mode, setMode] = useState<"record" | "listen">("record");
+  const [playing, setPlaying] = useState<AudioMatch | null>(null);
+  const [tolerateSpeedChanges, setTolerateSpeedChanges] = useState(false);
+
+  const channelStrategies = api.audio.getChannelStrategies.useQuery();
+  // References made with another strategy are compared with the query fingerprinted the same way.
+  // Without the library's strategies, only the mono query is sent
+  const strategyFingerprints = useMemo(
+    () =>
+      queryChannels && !channelStrategies.isPending
+        ? generateStrategyFingerprints(
+            queryChannels,
+            sampleRate,
+            queryChannelStrategies(queryChannels.length, channelStrategies.data ?? [])
+          )
+        : undefined,
+    [queryChannels, sampleRate, channelStrategies.isPending, channelStrategies.data]
+  );
 
   const identifyAudio = api.audio.identifyAudio.useQuery(
     { 
-      fingerprint: audioFeatures ? generateFingerprint(audioFeatures) : "",
-      minSimilarity: 0.5, // Lower threshold for identification
+      fingerprint: audioFeatures ? generateFingerprint(...audioFeatures) : "",
+      strategyFingerprints,
+      maxFalsePositiveRate: 0.01,
+      queryDuration: duration,
+      scaleSearch: tolerateSpeedChanges
+        ? { maxPitchChange: SCALE_SEARCH_RANGE, maxTempoChange: SCALE_SEARCH_RANGE }
+        : undefined,
+    },
+    // Every request is logged as a query, so don't repeat it just because the window regained focus
+    {
+      enabled: !!audioFeatures && !!strategyFingerprints,
+      refetchOnWindowFocus: false,
+    }
+  );
+
+  const identifyTimeline = api.audio.identifyTimeline.useQuery(
+    {
+      fingerprint: audioFeatures ? generateFingerprint(...audioFeatures) : "",
+      strategyFingerprints,
+      maxFalsePositiveRate: 0.01,
     },
-    { enabled: !!audioFeatures }
+    {
+      enabled: !!audioFeatures && !!strategyFingerprints && duration > TIMELINE_MIN_SECONDS,
+      refetchOnWindowFocus: false,
+    }
   );
 
+  const matches = mode === "listen" ? live.matches : identifyAudio.data;
+  const timeline = mode === "record" ? identifyTimeline.data : undefined;
+
   useEffect(() => {
     const wavesurfer = WaveSurfer.create({
       container: "#waveform",
@@ -37,21 +110,51 @@ export default function IdentifyPage() {
       height: 100,
       barGap: 3,
     });
+    const regions = wavesurfer.registerPlugin(RegionsPlugin.create());
+    // Clicking a detected sound plays that stretch of the query
+    regions.on("region-clicked", (region, event) => {
+      event.stopPropagation();
+      region.play();
+    });
 
     wavesurferRef.current = wavesurfer;
+    regionsRef.current = regions;
 
     return () => {
       wavesurfer.destroy();
     };
   }, []);
 
+  useEffect(() => {
+    const regions = regionsRef.current;
+    if (!regions) return;
+
+    regions.clearRegions();
+    timeline?.forEach((detection) => {
+      regions.addRegion({
+        start: detection.startSeconds,
+        end: detection.endSeconds,
+        content: detection.name,
+        color: "rgba(129, 140, 248, 0.25)",
+        drag: false,
+        resize: false,
+      });
+    });
+  }, [timeline]);
+
   const processAudioData = async (audioBuffer: AudioBuffer) => {
     setIsProcessing(true);
     setError(null);
     try {
-      const audioData = audioBuffer.getChannelData(0);
-      const features = extractAudioFeatures(audioData);
-      setAudioFeatures(features);
+      const channels = getAudioBufferChannels(audioBuffer);
+      const querySignals = prepareChannels(channels, IDENTIFY_CHANNEL_STRATEGY);
+      setDuration(audioBuffer.duration);
+      setAudioFeatures(
+        querySignals.map((signal) => extractAudioFeatures(signal, audioBuffer.sampleRate))
+      );
+      setSignals(querySignals);
+      setQueryChannels(channels);
+      setSampleRate(audioBuffer.sampleRate);
     } catch (err) {
       setError("Error processing audio data");
       console.error(err);
@@ -60,7 +163,16 @@ export default function IdentifyPage() {
     }
   };
 
+  const startListening = async () => {
+    setMode("listen");
+    setAudioFeatures(null);
+    setSignals(null);
+    setQueryChannels(null);
+    await live.start();
+  };
+
   const startRecording = async () => {
+    setMode("record");
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       const mediaRecorder = new MediaRecorder(stream);
@@ -80,7 +192,7 @@ export default function IdentifyPage() {
         await processAudioData(audioBuffer);
         
         if (wavesurferRef.current) {
-          wavesurferRef.current.loadBlob(audioBlob);
+          void wavesurferRef.current.loadBlob(audioBlob);
         }
       };
 
@@ -100,6 +212,29 @@ export default function IdentifyPage() {
     }
   };
 
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // Let the same file be picked again
+    event.target.value = "";
+
+    setMode("record");
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const audioContext = new AudioContext();
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+      await processAudioData(audioBuffer);
+
+      if (wavesurferRef.current) {
+        void wavesurferRef.current.loadBlob(file);
+      }
+    } catch (err) {
+      setError("Error processing audio file");
+      console.error(err);
+    }
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current?.state === "recording") {
       mediaRecorderRef.current.stop();
@@ -126,8 +261,12 @@ export default function IdentifyPage() {
             id="waveform"
             className="h-32 w-full rounded-lg bg-white/5 p-4"
           />
+
+          {mode === "record" && signals && (
+            <Spectrogram signals={signals} sampleRate={sampleRate} waveformRef={wavesurferRef} />
+          )}
           
-          <div className="flex justify-center">
+          <div className="flex justify-center space-x-4">
             <Button
               onClick={isRecording ? stopRecording : startRecording}
               className={`${
@@ -135,15 +274,71 @@ export default function IdentifyPage() {
                   ? "bg-red-500 hover:bg-red-600"
                   : "bg-indigo-600 hover:bg-indigo-700"
               }`}
-              disabled={isProcessing}
+              disabled={isProcessing || live.isListening}
             >
               {isRecording ? "Stop Recording" : "Start Recording"}
             </Button>
+            <Button
+              onClick={live.isListening ? live.stop : startListening}
+              className={`${
+                live.isListening
+                  ? "bg-red-500 hover:bg-red-600"
+                  : "bg-white/10 hover:bg-white/20 border border-white/10"
+              }`}
+              disabled={isProcessing || isRecording}
+            >
+              {live.isListening ? "Stop Listening" : "Listen"}
+            </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-white/10 hover:bg-white/20 border border-white/10"
+              disabled={isProcessing || isRecording || live.isListening}
+            >
+              Upload Audio
+            </Button>
           </div>
 
-          {error && (
+          <label className="flex items-center justify-center space-x-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={tolerateSpeedChanges}
+              onChange={(event) => setTolerateSpeedChanges(event.target.checked)}
+              className="accent-indigo-500"
+            />
+            <span>
+              Match sped-up, slowed-down or pitch-shifted recordings (±
+              {SCALE_SEARCH_RANGE * 100}%, slower)
+            </span>
+          </label>
+
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileUpload}
+            accept="audio/*"
+            className="hidden"
+          />
+
+          {live.isListening && (
+            <div className="flex items-center justify-center space-x-2 text-white">
+              <div className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+              <span>
+                Listening... {formatTimestamp(live.listenedSeconds)}
+              </span>
+            </div>
+          )}
+
+          {mode === "listen" &&
+            !live.isListening &&
+            (live.matches?.[0]?.falsePositiveRate ?? 1) <= LIVE_STOP_FALSE_POSITIVE_RATE && (
+              <div className="text-center text-white/70">
+                Stopped listening: confident match found.
+              </div>
+            )}
+
+          {(error ?? live.error) && (
             <div className="rounded-lg bg-red-500/10 p-4 text-red-500">
-              {error}
+              {error ?? live.error}
             </div>
           )}
 
@@ -153,18 +348,41 @@ export default function IdentifyPage() {
             </div>
           )}
 
-          {identifyAudio.data && identifyAudio.data.length > 0 && (
+          {matches && matches.length > 0 && (
             <div className="mt-4 rounded-lg bg-white/5 p-4">
               <h2 className="text-xl font-semibold text-white">Matches Found:</h2>
               <ul className="mt-2 space-y-2">
-                {identifyAudio.data.map((match) => (
+                {matches.map((match) => (
                   <li
                     key={match.id}
                     className="flex items-center justify-between text-white"
                   >
-                    <span>{match.name}</span>
-                    <span className="text-sm text-white/70">
-                      {match.duration}s • {Math.round(match.similarity * 100)}% match
+                    <span>
+                      Matched at {formatTimestamp(match.offsetSeconds)} of {match.name}
+                    </span>
+                    <span className="flex items-center space-x-2 text-sm text-white/70">
+                      <span>
+                        {match.duration}s • {formatConfidence(match.falsePositiveRate)} confidence
+                        {" "}• {Math.round(match.similarity * 100)}% match
+                        {" "}• {match.alignedHashCount} aligned hashes
+                        {match.stale && " • outdated fingerprint"}
+                        {match.recordingId !== null && " • extra reference"}
+                        {match.scale &&
+                          (match.scale.pitchFactor !== 1 || match.scale.tempoFactor !== 1) && (
+                            <>
+                              {" "}• pitch ×{match.scale.pitchFactor.toFixed(2)}, tempo ×
+                              {match.scale.tempoFactor.toFixed(2)}
+                            </>
+                          )}
+                      </span>
+                      {match.hasAudio && (
+                        <Button
+                          onClick={() => setPlaying(match)}
+                          className="h-8 bg-indigo-600 px-3 hover:bg-indigo-700"
+                        >
+                          ▶ Play
+                        </Button>
+                      )}
                     </span>
                   </li>
                 ))}
@@ -172,7 +390,61 @@ export default function IdentifyPage() {
             </div>
           )}
 
-          {identifyAudio.data && identifyAudio.data.length === 0 && (
+          {identifyTimeline.isFetching && mode === "record" && (
+            <div className="text-center text-white">
+              Building timeline...
+            </div>
+          )}
+
+          {timeline && (
+            <div className="mt-4 rounded-lg bg-white/5 p-4">
+              <h2 className="text-xl font-semibold text-white">Timeline:</h2>
+              {timeline.length === 0 ? (
+                <p className="mt-2 text-white/70">No sounds found in any part of the recording.</p>
+              ) : (
+                <ul className="mt-2 space-y-2">
+                  {timeline.map((detection) => (
+                    <li
+                      key={`${detection.id}-${detection.startSeconds}`}
+                      className="flex items-center justify-between text-white"
+                    >
+                      <span>
+                        {formatTimestamp(detection.startSeconds)}–
+                        {formatTimestamp(detection.endSeconds)} {detection.name}
+                      </span>
+                      <span className="flex items-center space-x-2 text-sm text-white/70">
+                        <span>
+                          from {formatTimestamp(detection.offsetSeconds)} •{" "}
+                          {formatConfidence(detection.falsePositiveRate)} confidence
+                          {detection.stale && " • outdated fingerprint"}
+                        </span>
+                        {detection.hasAudio && (
+                          <Button
+                            onClick={() => setPlaying(detection)}
+                            className="h-8 bg-indigo-600 px-3 hover:bg-indigo-700"
+                          >
+                            ▶ Play
+                          </Button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {playing && (
+            <ReferencePlayer
+              fingerprintId={playing.id}
+              recordingId={playing.recordingId}
+              name={playing.name}
+              startSeconds={playing.offsetSeconds}
+              onClose={() => setPlaying(null)}
+            />
+          )}
+
+          {matches?.length === 0 && !live.isListening && (
             <div className="text-center text-white/70">
               No matches found. Try recording again or check the database for saved fingerprints.
             </div>
@@ -0,0 +1,292 @@
+"use client";
+
+import { useDeferredValue, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { api, type RouterInputs } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { formatTimestamp } from "~/lib/utils";
+import { isCurrentAlgorithm } from "~/lib/audio";
+
+type SortField = NonNullable<RouterInputs["audio"]["listFingerprints"]["sort"]>;
+type SortOrder = NonNullable<RouterInputs["audio"]["listFingerprints"]["order"]>;
+
+const SORT_LABELS: Record<SortField, string> = {
+  createdAt: "Date added",
+  name: "Name",
+  duration: "Duration",
+};
+
+const PAGE_SIZE = 25;
+
+export default function LibraryPage() {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SortField>("createdAt");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  // Typing shouldn't refetch on every keystroke before the previous results have rendered
+  const deferredQuery = useDeferredValue(query.trim());
+
+  const utils = api.useUtils();
+  const fingerprints = api.audio.listFingerprints.useInfiniteQuery(
+    { query: deferredQuery || undefined, sort, order, limit: PAGE_SIZE },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const reindexStatus = api.audio.getReindexStatus.useQuery();
+  const latestJob = reindexStatus.data?.latestJob;
+
+  const updateFingerprint = api.audio.updateFingerprint.useMutation({
+    onSuccess: async () => {
+      setEditingId(null);
+      await utils.audio.listFingerprints.invalidate();
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  const deleteFingerprint = api.audio.deleteFingerprint.useMutation({
+    onSuccess: async () => {
+      await utils.audio.listFingerprints.invalidate();
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  const items = fingerprints.data?.pages.flatMap((page) => page.items) ?? [];
+
+  const startRename = (id: number, name: string) => {
+    setError(null);
+    setEditingId(id);
+    setEditName(name);
+  };
+
+  const saveRename = (id: number) => {
+    if (!editName.trim()) {
+      setError("Please enter a name for the fingerprint");
+      return;
+    }
+    updateFingerprint.mutate({ id, name: editName.trim() });
+  };
+
+  const removeFingerprint = (id: number, name: string) => {
+    if (!window.confirm(`Delete "${name}"? This cannot be undone.`)) return;
+    setError(null);
+    deleteFingerprint.mutate({ id });
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="relative w-full max-w-4xl space-y-8 rounded-2xl bg-white/5 p-12 backdrop-blur-xl">
+        {/* Background decoration */}
+        <div className="absolute inset-0 -z-10 overflow-hidden rounded-2xl">
+          <div className="absolute -top-40 -left-40 h-80 w-80 rounded-full bg-purple-500/20 blur-3xl" />
+          <div className="absolute -bottom-40 -right-40 h-80 w-80 rounded-full bg-indigo-500/20 blur-3xl" />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <motion.h1
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.5 }}
+            className="text-4xl font-bold text-white"
+          >
+            Library
+          </motion.h1>
+          <div className="flex space-x-2">
+            <Link href="/duplicates">
+              <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+                  Duplicates
+                </Button>
+              </motion.div>
+            </Link>
+            <Link href="/">
+              <motion.div
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+                  Back to Home
+                </Button>
+              </motion.div>
+            </Link>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex flex-col gap-4 sm:flex-row">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or tag"
+              className="flex-1 rounded-lg bg-white/5 px-4 py-3 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+            />
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortField)}
+              className="rounded-lg bg-white/5 px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+            >
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={() => setOrder(order === "asc" ? "desc" : "asc")}
+              className="h-auto bg-white/10 hover:bg-white/20 text-white border border-white/10"
+            >
+              {order === "asc" ? "Ascending ↑" : "Descending ↓"}
+            </Button>
+          </div>
+
+          {(reindexStatus.data?.staleCount ?? 0) > 0 && (
+            <div className="rounded-lg bg-yellow-500/10 p-4 text-yellow-300 border border-yellow-500/20">
+              {reindexStatus.data?.staleCount} fingerprints or reference recordings were made with an
+              older version of the algorithm and match poorly until they are reindexed with{" "}
+              <code className="rounded bg-white/10 px-1">pnpm library:reindex</code>.
+              {latestJob?.status === "running" && (
+                <span className="block text-sm text-yellow-300/70">
+                  Reindex job {latestJob.id}:{" "}
+                  {latestJob.reindexed +
+                    latestJob.skipped +
+                    latestJob.unsupported +
+                    latestJob.failed}
+                  /{latestJob.total} processed
+                </span>
+              )}
+              {latestJob && latestJob.unsupported + latestJob.failed > 0 && (
+                <span className="block text-sm text-red-400">
+                  Reindex job {latestJob.id} could not regenerate{" "}
+                  {latestJob.unsupported + latestJob.failed} fingerprints:{" "}
+                  {latestJob.unsupported} stored in a format the server can&apos;t decode,{" "}
+                  {latestJob.failed} failed
+                  {latestJob.lastError && ` (last error: ${latestJob.lastError})`}
+                </span>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="rounded-lg bg-red-500/10 p-4 text-red-500 border border-red-500/20"
+            >
+              {error}
+            </motion.div>
+          )}
+
+          {fingerprints.isLoading ? (
+            <div className="flex items-center justify-center space-x-2 text-white">
+              <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500" />
+              <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-100" />
+              <div className="h-2 w-2 animate-pulse rounded-full bg-indigo-500 delay-200" />
+              <span>Loading library...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-center text-white/70">
+              {deferredQuery ? "No sounds match your search." : "No sounds have been saved yet."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {items.map((item) => (
+                <motion.li
+                  key={item.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex items-center justify-between gap-4 rounded-lg bg-white/5 p-4 border border-white/10"
+                >
+                  <div className="min-w-0 flex-1 space-y-1">
+                    {editingId === item.id ? (
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") saveRename(item.id);
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                        autoFocus
+                        className="w-full rounded-lg bg-white/5 px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+                      />
+                    ) : (
+                      <h3 className="truncate text-lg font-medium text-white">{item.name}</h3>
+                    )}
+                    <p className="text-sm text-white/50">
+                      {formatTimestamp(item.duration)} · added {item.createdAt.toLocaleDateString()}
+                      {item.category && <> · {item.category}</>}
+                      {!isCurrentAlgorithm(item) && (
+                        <span className="text-yellow-300/70"> · outdated fingerprint</span>
+                      )}
+                    </p>
+                    {item.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {item.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={() => setQuery(tag)}
+                            className="rounded-full bg-indigo-500/20 px-2 py-0.5 text-xs text-indigo-300 hover:bg-indigo-500/30"
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 space-x-2">
+                    {editingId === item.id ? (
+                      <>
+                        <Button
+                          onClick={() => saveRename(item.id)}
+                          className="bg-green-600 hover:bg-green-700"
+                          disabled={updateFingerprint.isPending}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          onClick={() => setEditingId(null)}
+                          className="bg-white/10 hover:bg-white/20 text-white border border-white/10"
+                        >
+                          Cancel
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          onClick={() => startRename(item.id, item.name)}
+                          className="bg-white/10 hover:bg-white/20 text-white border border-white/10"
+                        >
+                          Rename
+                        </Button>
+                        <Button
+                          onClick={() => removeFingerprint(item.id, item.name)}
+                          className="bg-red-500/80 hover:bg-red-600"
+                          disabled={deleteFingerprint.isPending}
+                        >
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </motion.li>
+              ))}
+            </ul>
+          )}
+
+          {fingerprints.hasNextPage && (
+            <Button
+              onClick={() => void fingerprints.fetchNextPage()}
+              className="w-full h-12 text-lg bg-white/10 hover:bg-white/20 text-white border border-white/10"
+              disabled={fingerprints.isFetchingNextPage}
+            >
+              {fingerprints.isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
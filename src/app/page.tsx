@@ -89,6 +89,24 @@ export default function Home() {
           </motion.div>
         </div>
 
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.7 }}
+          className="flex justify-center space-x-4"
+        >
+          <Link href="/library">
+            <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+              Browse Library →
+            </Button>
+          </Link>
+          <Link href="/analytics">
+            <Button className="bg-white/10 hover:bg-white/20 text-white border border-white/10">
+              Analytics →
+            </Button>
+          </Link>
+        </motion.div>
+
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
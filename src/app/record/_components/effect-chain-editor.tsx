@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import {
+  DEFAULT_EFFECTS,
+  EFFECT_LABELS,
+  EFFECT_PARAMETER_RANGES,
+  isEffectType,
+  type Effect,
+  type EffectParameterRange,
+} from "~/lib/effects";
+
+/** An effect in the chain, with an id that stays the same while it is edited or moved. */
+export interface EffectChainItem {
+  id: number;
+  effect: Effect;
+}
+
+interface EffectChainEditorProps {
+  items: EffectChainItem[];
+  onChange: (items: EffectChainItem[]) => void;
+  disabled?: boolean;
+}
+
+const PARAMETER_INPUTS: Record<string, { label: string; step: number }> = {
+  gainDb: { label: "Gain (dB)", step: 0.5 },
+  peakDb: { label: "Peak (dBFS)", step: 0.5 },
+  frequency: { label: "Frequency (Hz)", step: 1 },
+  q: { label: "Q", step: 0.1 },
+  fadeInSeconds: { label: "Fade in (s)", step: 0.05 },
+  fadeOutSeconds: { label: "Fade out (s)", step: 0.05 },
+  cutStartSeconds: { label: "Cut from start (s)", step: 0.05 },
+  cutEndSeconds: { label: "Cut from end (s)", step: 0.05 },
+  tempoFactor: { label: "Tempo (×)", step: 0.05 },
+};
+
+interface ParameterInputProps {
+  name: string;
+  value: number;
+  range: EffectParameterRange;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Number field that only passes on values within range, so the chain never holds an invalid effect
+ * while a value is being typed.
+ */
+function ParameterInput({ name, value, range, onChange, disabled }: ParameterInputProps) {
+  const [text, setText] = useState(String(Math.round(value * 1000) / 1000));
+  const { label, step } = PARAMETER_INPUTS[name] ?? { label: name, step: 0.1 };
+  const parse = (input: string) => {
+    const parsed = Number(input);
+    return input.trim() !== "" && parsed >= range.min && parsed <= range.max ? parsed : null;
+  };
+  const valid = parse(text) !== null;
+
+  return (
+    <label className="flex flex-col space-y-1 text-sm text-white/70">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={text}
+        min={range.min}
+        max={range.max}
+        step={step}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parse(e.target.value);
+          if (parsed !== null) onChange(parsed);
+        }}
+        disabled={disabled}
+        className={`w-32 rounded-lg bg-white/5 px-3 py-2 text-white focus:outline-none focus:ring-2 border ${
+          valid ? "border-white/10 focus:ring-indigo-500" : "border-red-500 focus:ring-red-500"
+        }`}
+      />
+    </label>
+  );
+}
+
+/**
+ * Edits the chain of effects applied to a recording: effects can be added, tuned, moved up or down
+ * and removed. They run from top to bottom.
+ */
+export function EffectChainEditor({ items, onChange, disabled = false }: EffectChainEditorProps) {
+  const [nextId, setNextId] = useState(() => Math.max(0, ...items.map((item) => item.id)) + 1);
+
+  const addEffect = (type: string) => {
+    if (!isEffectType(type)) return;
+    onChange([...items, { id: nextId, effect: DEFAULT_EFFECTS[type] }]);
+    setNextId(nextId + 1);
+  };
+
+  const updateEffect = (id: number, parameter: string, value: number) => {
+    onChange(
+      items.map((item) =>
+        item.id === id ? { ...item, effect: { ...item.effect, [parameter]: value } } : item
+      )
+    );
+  };
+
+  const moveEffect = (index: number, direction: -1 | 1) => {
+    const moved = [...items];
+    [moved[index], moved[index + direction]] = [moved[index + direction]!, moved[index]!];
+    onChange(moved);
+  };
+
+  return (
+    <div className="w-full space-y-4 rounded-lg bg-white/5 p-4 border border-white/10">
+      <div className="flex items-center justify-between text-white">
+        <span className="text-lg font-semibold">Effects</span>
+        <select
+          value=""
+          onChange={(e) => addEffect(e.target.value)}
+          disabled={disabled}
+          className="rounded-lg bg-white/5 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+        >
+          <option value="" disabled>
+            Add effect...
+          </option>
+          {Object.entries(EFFECT_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {items.length === 0 && (
+        <p className="text-sm text-white/50">
+          No effects: the recording is fingerprinted and saved as it is.
+        </p>
+      )}
+
+      <ol className="space-y-2">
+        {items.map(({ id, effect }, index) => {
+          const ranges: Record<string, EffectParameterRange> = EFFECT_PARAMETER_RANGES[effect.type];
+          const parameters = effect as unknown as Record<string, number>;
+
+          return (
+            <li key={id} className="space-y-3 rounded-lg bg-white/5 p-3">
+              <div className="flex items-center justify-between text-white">
+                <span>
+                  {index + 1}. {EFFECT_LABELS[effect.type]}
+                </span>
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={() => moveEffect(index, -1)}
+                    className="h-8 px-3 bg-white/10 hover:bg-white/20 border border-white/10"
+                    disabled={disabled || index === 0}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    onClick={() => moveEffect(index, 1)}
+                    className="h-8 px-3 bg-white/10 hover:bg-white/20 border border-white/10"
+                    disabled={disabled || index === items.length - 1}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    onClick={() => onChange(items.filter((item) => item.id !== id))}
+                    className="h-8 px-3 bg-red-500/20 hover:bg-red-500/30 border border-red-500/20"
+                    disabled={disabled}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+              {Object.keys(ranges).length > 0 && (
+                <div className="flex flex-wrap gap-4">
+                  {Object.entries(ranges).map(([name, range]) => (
+                    <ParameterInput
+                      key={name}
+                      name={name}
+                      value={parameters[name] ?? range.min}
+                      range={range}
+                      onChange={(value) => updateEffect(id, name, value)}
+                      disabled={disabled}
+                    />
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import {
+  EXPORT_SAMPLE_RATES,
+  WAV_FORMAT_LABELS,
+  exportFileName,
+  exportWav,
+  formatFeatureExport,
+  type FeatureExport,
+} from "~/lib/export";
+import { type WavSampleFormat } from "~/lib/wav";
+
+/** A version of the recording that can be downloaded. */
+export interface ExportSource {
+  label: string;
+  /** Appended to the file name; null for the recording itself. */
+  suffix: string | null;
+  channels: Float32Array[];
+}
+
+interface ExportPanelProps {
+  /** Name the files are given, usually the name the recording is being saved under. */
+  name: string;
+  sampleRate: number;
+  sources: ExportSource[];
+  analysis: FeatureExport | null;
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the recording, its processed or resynthesized versions as WAV files, or the features
+ * extracted from it as JSON.
+ */
+export function ExportPanel({ name, sampleRate, sources, analysis }: ExportPanelProps) {
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [format, setFormat] = useState<WavSampleFormat>("pcm16");
+  // Null keeps the recording's own sample rate
+  const [exportSampleRate, setExportSampleRate] = useState<number | null>(null);
+
+  const source = sources.find((candidate) => candidate.label === sourceLabel) ?? sources[0];
+
+  const downloadWav = () => {
+    if (!source) return;
+    const bytes = exportWav(
+      { sampleRate, channels: source.channels },
+      { sampleRate: exportSampleRate ?? sampleRate, format }
+    );
+    download(new Blob([bytes], { type: "audio/wav" }), exportFileName(name, source.suffix, "wav"));
+  };
+
+  const downloadAnalysis = () => {
+    if (!analysis) return;
+    download(
+      new Blob([formatFeatureExport(analysis)], { type: "application/json" }),
+      exportFileName(name, "analysis", "json")
+    );
+  };
+
+  return (
+    <div className="w-full space-y-4 rounded-lg bg-white/5 p-4 border border-white/10">
+      <span className="text-lg font-semibold text-white">Export</span>
+      <div className="flex flex-wrap gap-4">
+        <select
+          value={source?.label ?? ""}
+          onChange={(e) => setSourceLabel(e.target.value)}
+          className="flex-1 rounded-lg bg-white/5 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+        >
+          {sources.map((candidate) => (
+            <option key={candidate.label} value={candidate.label}>
+              {candidate.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as WavSampleFormat)}
+          className="flex-1 rounded-lg bg-white/5 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+        >
+          {Object.entries(WAV_FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={exportSampleRate ?? ""}
+          onChange={(e) => setExportSampleRate(e.target.value ? Number(e.target.value) : null)}
+          className="flex-1 rounded-lg bg-white/5 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+        >
+          <option value="">Original rate ({sampleRate} Hz)</option>
+          {EXPORT_SAMPLE_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate} Hz
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex space-x-4">
+        <Button
+          onClick={downloadWav}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700"
+          disabled={!source}
+        >
+          Download WAV
+        </Button>
+        <Button
+          onClick={downloadAnalysis}
+          className="flex-1 bg-white/10 hover:bg-white/20 text-white border border-white/10"
+          disabled={!analysis}
+        >
+          Download analysis (JSON)
+        </Button>
+      </div>
+    </div>
+  );
+}
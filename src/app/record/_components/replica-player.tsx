@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import WaveSurfer from "wavesurfer.js";
+import { Button } from "~/components/ui/button";
+import { prepareChannels } from "~/lib/channels";
+import { DEFAULT_MAX_PARTIALS, DEFAULT_NOISE_LEVEL } from "~/lib/synthesis";
+import { type SynthesisRequest, type SynthesisResult } from "~/lib/synthesis.worker";
+import { encodeWavBlob } from "~/lib/wav";
+import { useWorker } from "../_hooks/use-worker";
+
+interface ReplicaPlayerProps {
+  channels: Float32Array[];
+  sampleRate: number;
+  /** Called with every replica rendered, so it can be exported. */
+  onRender?: (samples: Float32Array) => void;
+  onClose: () => void;
+}
+
+const MAX_PARTIALS_LIMIT = 100;
+// Wait for the sliders to settle before resynthesizing, which takes a while for long recordings
+const RESYNTHESIS_DELAY_MS = 300;
+
+const createSynthesisWorker = () =>
+  new Worker(new URL("../../../lib/synthesis.worker.ts", import.meta.url), { type: "module" });
+
+function createWaveSurfer(container: HTMLElement, waveColor: string, progressColor: string) {
+  return WaveSurfer.create({
+    container,
+    waveColor,
+    progressColor,
+    cursorColor: waveColor,
+    barWidth: 2,
+    barRadius: 3,
+    cursorWidth: 1,
+    height: 80,
+    barGap: 3,
+  });
+}
+
+/**
+ * Plays a recording next to its additive resynthesis, with controls for how many partials the
+ * replica keeps and how much of the noise residual is added back.
+ */
+export function ReplicaPlayer({ channels, sampleRate, onRender, onClose }: ReplicaPlayerProps) {
+  const originalRef = useRef<HTMLDivElement>(null);
+  const replicaRef = useRef<HTMLDivElement>(null);
+  const originalPlayerRef = useRef<WaveSurfer | null>(null);
+  const replicaPlayerRef = useRef<WaveSurfer | null>(null);
+  const [playing, setPlaying] = useState<"original" | "replica" | null>(null);
+  const [maxPartials, setMaxPartials] = useState(DEFAULT_MAX_PARTIALS);
+  const [noiseLevel, setNoiseLevel] = useState(DEFAULT_NOISE_LEVEL);
+  const [isRendering, setIsRendering] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { run: runSynthesis } = useWorker<SynthesisRequest, SynthesisResult>(createSynthesisWorker);
+
+  // Resynthesis works on a single signal, so the replica is of the mono mix
+  const mono = useMemo(() => prepareChannels(channels, { type: "mono" })[0]!, [channels]);
+
+  useEffect(() => {
+    if (!originalRef.current || !replicaRef.current) return;
+
+    const original = createWaveSurfer(originalRef.current, "#4F46E5", "#818CF8");
+    const replica = createWaveSurfer(replicaRef.current, "#16A34A", "#4ADE80");
+    originalPlayerRef.current = original;
+    replicaPlayerRef.current = replica;
+
+    // Only one of the two plays at a time, so they can be compared back to back
+    original.on("play", () => {
+      replica.pause();
+      setPlaying("original");
+    });
+    replica.on("play", () => {
+      original.pause();
+      setPlaying("replica");
+    });
+    original.on("pause", () => setPlaying((current) => (current === "original" ? null : current)));
+    replica.on("pause", () => setPlaying((current) => (current === "replica" ? null : current)));
+
+    void original.loadBlob(encodeWavBlob({ sampleRate, channels }));
+
+    return () => {
+      original.destroy();
+      replica.destroy();
+      originalPlayerRef.current = null;
+      replicaPlayerRef.current = null;
+    };
+  }, [channels, sampleRate]);
+
+  // Renders in a worker, so the sliders stay responsive; moving one abandons the render in progress
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+    const timeout = setTimeout(() => {
+      runSynthesis({ samples: mono, sampleRate, maxPartials, noiseLevel })
+        .then(({ samples }) => {
+          if (cancelled) return;
+          setError(null);
+          const replica = encodeWavBlob({ sampleRate, channels: [samples] });
+          void replicaPlayerRef.current?.loadBlob(replica);
+          onRender?.(samples);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setError("Could not resynthesize the recording");
+          console.error(err);
+        })
+        .finally(() => {
+          if (!cancelled) setIsRendering(false);
+        });
+    }, RESYNTHESIS_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mono, sampleRate, maxPartials, noiseLevel, onRender, runSynthesis]);
+
+  return (
+    <div className="w-full space-y-4 rounded-lg bg-white/5 p-4 border border-white/10">
+      <div className="flex items-center justify-between text-white">
+        <span className="text-lg font-semibold">Replica</span>
+        <Button onClick={onClose} className="bg-white/10 hover:bg-white/20 border border-white/10">
+          Close
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-white">
+          <span>Original</span>
+          <Button
+            onClick={() => void originalPlayerRef.current?.playPause()}
+            className="bg-indigo-600 hover:bg-indigo-700"
+          >
+            {playing === "original" ? "Pause" : "Play"}
+          </Button>
+        </div>
+        <div ref={originalRef} className="w-full" />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-white">
+          <span>
+            Resynthesized
+            {isRendering && <span className="text-sm text-white/50"> • rendering...</span>}
+          </span>
+          <Button
+            onClick={() => void replicaPlayerRef.current?.playPause()}
+            className="bg-green-600 hover:bg-green-700"
+            disabled={isRendering || !!error}
+          >
+            {playing === "replica" ? "Pause" : "Play"}
+          </Button>
+        </div>
+        <div ref={replicaRef} className="w-full" />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm text-white/70">
+        <label className="space-y-1">
+          <span>Partials: {maxPartials}</span>
+          <input
+            type="range"
+            min={1}
+            max={MAX_PARTIALS_LIMIT}
+            value={maxPartials}
+            onChange={(e) => setMaxPartials(Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Noise residual: {Math.round(noiseLevel * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={noiseLevel}
+            onChange={(e) => setNoiseLevel(Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+}
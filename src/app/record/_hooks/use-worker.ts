@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Runs jobs in a Web Worker, one worker per job. Starting a new job abandons the previous one, whose
+ * worker is terminated and whose promise never settles, so only the latest job is ever waited for.
+ *
+ * The worker answers every request with either its result or `{ error }`. `createWorker` has to be
+ * stable across renders, so it is best declared at module level.
+ */
+export function useWorker<Request, Result extends object>(createWorker: () => Worker) {
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const run = useCallback(
+    (request: Request) => {
+      stop();
+      const worker = createWorker();
+      workerRef.current = worker;
+
+      return new Promise<Result>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<Result | { error: string }>) => {
+          if ("error" in event.data) reject(new Error(event.data.error));
+          else resolve(event.data);
+          if (workerRef.current === worker) stop();
+        };
+        worker.onerror = (event) => {
+          reject(new Error(event.message));
+          if (workerRef.current === worker) stop();
+        };
+        worker.postMessage(request);
+      });
+    },
+    [createWorker, stop]
+  );
+
+  // Don't leave a worker running after the page unmounts
+  useEffect(() => stop, [stop]);
+
+  return { run, stop };
+}
@@ -1,42 +1,136 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import WaveSurfer from "wavesurfer.js";
-import { api } from "~/trpc/react";
+import { api, type RouterInputs } from "~/trpc/react";
+import { Spectrogram } from "~/components/spectrogram";
 import { Button } from "~/components/ui/button";
-import { extractAudioFeatures, generateFingerprint } from "~/lib/audio";
-import { type AudioFeatures } from "~/types/audio";
+import {
+  ANALYSIS_SAMPLE_RATE,
+  CURRENT_ALGORITHM,
+  extractChannelFeatures,
+  generateFingerprint,
+} from "~/lib/audio";
+import {
+  CHANNEL_STRATEGY_LABELS,
+  DEFAULT_CHANNEL_STRATEGY,
+  formatChannelStrategy,
+  getAudioBufferChannels,
+  parseChannelStrategy,
+  prepareChannels,
+  type ChannelStrategy,
+} from "~/lib/channels";
+import { formatEffectChain } from "~/lib/effects";
+import { type EffectsRequest, type EffectsResult } from "~/lib/effects.worker";
+import { createFeatureExport } from "~/lib/export";
+import { formatConfidence, formatTimestamp } from "~/lib/utils";
+import { encodeWavBlob } from "~/lib/wav";
+import { type AudioFeatures, type AudioMatch } from "~/types/audio";
 import Link from "next/link";
 import { motion } from "framer-motion";
+import { EffectChainEditor, type EffectChainItem } from "./_components/effect-chain-editor";
+import { ExportPanel, type ExportSource } from "./_components/export-panel";
+import { ReplicaPlayer } from "./_components/replica-player";
+import { useWorker } from "./_hooks/use-worker";
+
+type DuplicateResolution = NonNullable<RouterInputs["audio"]["createFingerprint"]["duplicates"]>;
+
+const PROCESSING_ERROR = "Error processing audio data";
+// Wait for edits to the effect chain to settle, since each one reprocesses the whole recording
+const EFFECT_PREVIEW_DELAY_MS = 300;
+
+const createEffectsWorker = () =>
+  new Worker(new URL("../../lib/effects.worker.ts", import.meta.url), { type: "module" });
 
 export default function RecordPage() {
   const [isRecording, setIsRecording] = useState(false);
-  const [audioData, setAudioData] = useState<Float32Array | null>(null);
-  const [audioFeatures, setAudioFeatures] = useState<AudioFeatures | null>(null);
+  const [audioChannels, setAudioChannels] = useState<Float32Array[] | null>(null);
+  // The recording after the effect chain: what is previewed, fingerprinted and saved
+  const [processedChannels, setProcessedChannels] = useState<Float32Array[] | null>(null);
+  const [effects, setEffects] = useState<EffectChainItem[]>([]);
+  const [sampleRate, setSampleRate] = useState(0);
+  const [channelStrategy, setChannelStrategy] = useState<ChannelStrategy>(DEFAULT_CHANNEL_STRATEGY);
+  const [audioFeatures, setAudioFeatures] = useState<AudioFeatures[] | null>(null);
   const [duration, setDuration] = useState(0);
   const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [tags, setTags] = useState("");
+  const [sourceFilename, setSourceFilename] = useState<string | undefined>(undefined);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Whether the worker is still applying the latest effect chain, so the features are out of date
+  const [isApplyingEffects, setIsApplyingEffects] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Existing entries the last save attempt matched, awaiting the user's decision
+  const [duplicates, setDuplicates] = useState<AudioMatch[] | null>(null);
+  const [showReplica, setShowReplica] = useState(false);
+  // Last resynthesis of the recording, while the replica player is open
+  const [replica, setReplica] = useState<Float32Array | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  // Whether the waveform shows the processed recording rather than the original
+  const previewingEffectsRef = useRef(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { run: runEffects, stop: stopEffects } = useWorker<EffectsRequest, EffectsResult>(
+    createEffectsWorker
+  );
 
-  const createFingerprint = api.audio.createFingerprint.useMutation({
-    onSuccess: () => {
-      setSuccess("Fingerprint saved successfully!");
-      setName("");
-      setAudioFeatures(null);
-      setAudioData(null);
-      if (wavesurferRef.current) {
-        wavesurferRef.current.empty();
-      }
-    },
-    onError: (error) => {
-      setError(error.message);
-    },
-  });
+  const effectChain = useMemo(() => effects.map((item) => item.effect), [effects]);
+
+  // The signals features are extracted from, for the spectrogram
+  const signals = useMemo(
+    () => processedChannels && prepareChannels(processedChannels, channelStrategy),
+    [processedChannels, channelStrategy]
+  );
+
+  const exportSources = useMemo(() => {
+    const sources: ExportSource[] = [];
+    if (audioChannels) sources.push({ label: "Original", suffix: null, channels: audioChannels });
+    if (processedChannels && effectChain.length > 0) {
+      sources.push({ label: "With effects", suffix: "processed", channels: processedChannels });
+    }
+    if (replica) sources.push({ label: "Resynthesized", suffix: "replica", channels: [replica] });
+    return sources;
+  }, [audioChannels, processedChannels, effectChain, replica]);
+
+  const analysis = useMemo(
+    () =>
+      audioFeatures &&
+      createFeatureExport({
+        name: name.trim(),
+        duration,
+        sampleRate,
+        channelStrategy: formatChannelStrategy(channelStrategy),
+        effectChain: effectChain.length > 0 ? formatEffectChain(effectChain) : null,
+        features: audioFeatures,
+      }),
+    [audioFeatures, name, duration, sampleRate, channelStrategy, effectChain]
+  );
+
+  const createFingerprint = api.audio.createFingerprint.useMutation();
+  const deleteFingerprint = api.audio.deleteFingerprint.useMutation();
+  const deleteReferenceRecording = api.audio.deleteReferenceRecording.useMutation();
+
+  const resetForm = () => {
+    setName("");
+    setDescription("");
+    setCategory("");
+    setTags("");
+    setAudioFeatures(null);
+    setAudioChannels(null);
+    setProcessedChannels(null);
+    setAudioBlob(null);
+    setDuplicates(null);
+    setShowReplica(false);
+    setReplica(null);
+    if (wavesurferRef.current) {
+      wavesurferRef.current.empty();
+    }
+  };
 
   useEffect(() => {
     const wavesurfer = WaveSurfer.create({
@@ -52,6 +146,8 @@ export default function RecordPage() {
     });
 
     wavesurferRef.current = wavesurfer;
+    wavesurfer.on("play", () => setIsPlaying(true));
+    wavesurfer.on("pause", () => setIsPlaying(false));
 
     return () => {
       wavesurfer.destroy();
@@ -61,21 +157,97 @@ export default function RecordPage() {
   const processAudioData = async (audioBuffer: AudioBuffer) => {
     setIsProcessing(true);
     setError(null);
+    setDuplicates(null);
     try {
-      const audioData = audioBuffer.getChannelData(0);
-      setAudioData(audioData);
-      setDuration(audioBuffer.duration);
-      
-      const features = extractAudioFeatures(audioData);
-      setAudioFeatures(features);
+      const channels = getAudioBufferChannels(audioBuffer);
+      setAudioChannels(channels);
+      setSampleRate(audioBuffer.sampleRate);
+
+      // A single-channel strategy may point past the channels of the new recording
+      const strategy =
+        channelStrategy.type === "channel" && channelStrategy.channel >= channels.length
+          ? DEFAULT_CHANNEL_STRATEGY
+          : channelStrategy;
+      setChannelStrategy(strategy);
     } catch (err) {
-      setError("Error processing audio data");
+      setError(PROCESSING_ERROR);
       console.error(err);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  // Applies the effect chain and extracts features whenever the recording, the chain or the channel
+  // strategy changes. Without effects, only the features need extracting, which is quick enough to
+  // do here
+  useEffect(() => {
+    if (!audioChannels) return;
+
+    let cancelled = false;
+    const applyChain = async () => {
+      if (effectChain.length === 0) {
+        stopEffects();
+        return {
+          channels: audioChannels,
+          features: extractChannelFeatures(audioChannels, sampleRate, channelStrategy),
+        };
+      }
+      return await runEffects({
+        channels: audioChannels,
+        sampleRate,
+        chain: effectChain,
+        channelStrategy,
+      });
+    };
+
+    setIsApplyingEffects(true);
+    const timeout = setTimeout(
+      () => {
+        applyChain()
+          .then(({ channels, features }) => {
+            if (cancelled) return;
+            setProcessedChannels(channels);
+            setDuration((channels[0]?.length ?? 0) / sampleRate);
+            setAudioFeatures(features);
+            setError((current) => (current === PROCESSING_ERROR ? null : current));
+
+            // Preview the processed recording, or go back to the original once the chain is empty
+            if (effectChain.length > 0) {
+              void wavesurferRef.current?.loadBlob(encodeWavBlob({ sampleRate, channels }));
+              previewingEffectsRef.current = true;
+            } else if (previewingEffectsRef.current && audioBlob) {
+              void wavesurferRef.current?.loadBlob(audioBlob);
+              previewingEffectsRef.current = false;
+            }
+          })
+          .catch((err) => {
+            if (cancelled) return;
+            setProcessedChannels(null);
+            setAudioFeatures(null);
+            setError(PROCESSING_ERROR);
+            console.error(err);
+          })
+          .finally(() => {
+            if (!cancelled) setIsApplyingEffects(false);
+          });
+      },
+      effectChain.length > 0 ? EFFECT_PREVIEW_DELAY_MS : 0
+    );
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setIsApplyingEffects(false);
+    };
+  }, [audioChannels, sampleRate, effectChain, channelStrategy, audioBlob, runEffects, stopEffects]);
+
+  const changeChannelStrategy = (value: string) => {
+    const strategy = parseChannelStrategy(value);
+    if (!strategy || !audioChannels) return;
+
+    setChannelStrategy(strategy);
+  };
+
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -88,15 +260,17 @@ export default function RecordPage() {
       };
 
       mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: "audio/wav" });
+        const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType });
         const arrayBuffer = await audioBlob.arrayBuffer();
         const audioContext = new AudioContext();
         const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
         
         await processAudioData(audioBuffer);
+        setSourceFilename(undefined);
+        setAudioBlob(audioBlob);
         
         if (wavesurferRef.current) {
-          wavesurferRef.current.loadBlob(audioBlob);
+          void wavesurferRef.current.loadBlob(audioBlob);
         }
       };
 
@@ -136,10 +310,12 @@ export default function RecordPage() {
       const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
       
       await processAudioData(audioBuffer);
+      setSourceFilename(file.name);
+      setAudioBlob(file);
 
       const audioBlob = new Blob([arrayBuffer], { type: file.type });
       if (wavesurferRef.current) {
-        wavesurferRef.current.loadBlob(audioBlob);
+        void wavesurferRef.current.loadBlob(audioBlob);
       }
     } catch (err) {
       setError("Error processing audio file");
@@ -149,7 +325,9 @@ export default function RecordPage() {
     }
   };
 
-  const saveFingerprint = async () => {
+  const saveFingerprint = async (
+    duplicateResolution: DuplicateResolution = { action: "check" }
+  ) => {
     if (!name.trim()) {
       setError("Please enter a name for the fingerprint");
       return;
@@ -160,11 +338,83 @@ export default function RecordPage() {
       return;
     }
 
-    await createFingerprint.mutateAsync({
-      name: name.trim(),
-      fingerprint: generateFingerprint(audioFeatures),
-      duration: Math.round(duration),
-    });
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await createFingerprint.mutateAsync({
+        name: name.trim(),
+        fingerprint: generateFingerprint(...audioFeatures),
+        duration: Math.round(duration),
+        description: description.trim() || undefined,
+        category: category.trim() || undefined,
+        tags: tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+        sourceFilename,
+        sampleRate,
+        channelCount: audioChannels?.length,
+        analysisSampleRate: ANALYSIS_SAMPLE_RATE,
+        ...CURRENT_ALGORITHM,
+        channelStrategy: formatChannelStrategy(channelStrategy),
+        effectChain: effectChain.length > 0 ? formatEffectChain(effectChain) : undefined,
+        duplicates: duplicateResolution,
+      });
+
+      if (result.status === "duplicate") {
+        setDuplicates(result.duplicates);
+        return;
+      }
+
+      const saved = (() => {
+        if (result.status === "created") {
+          const { fingerprint } = result;
+          return (
+            fingerprint && {
+              url: `/api/audio/${fingerprint.id}/file`,
+              label: "Fingerprint",
+              rollBack: () => deleteFingerprint.mutateAsync({ id: fingerprint.id }),
+            }
+          );
+        }
+        const { recording } = result;
+        return {
+          url: `/api/audio/${recording.fingerprintId}/file?recording=${recording.id}`,
+          label: "Recording",
+          rollBack: () =>
+            deleteReferenceRecording.mutateAsync({
+              fingerprintId: recording.fingerprintId,
+              recordingId: recording.id,
+            }),
+        };
+      })();
+
+      // Keep the audio so matches can be played back and the entry reindexed or exported later.
+      // The server only decodes WAV, so it is stored as WAV whatever it was recorded or uploaded
+      // as; with effects, it is the processed version the fingerprint was made from
+      const storedChannels = effectChain.length > 0 ? processedChannels : audioChannels;
+      if (saved && storedChannels) {
+        const response = await fetch(saved.url, {
+          method: "PUT",
+          body: encodeWavBlob({ sampleRate, channels: storedChannels }),
+          headers: { "Content-Type": "audio/wav" },
+        }).catch(() => null);
+
+        if (!response?.ok) {
+          // An entry without its audio could never be reindexed, so take it back out
+          await saved.rollBack();
+          setError(`${saved.label} not saved: the audio could not be stored. Please try again.`);
+          return;
+        }
+      }
+
+      resetForm();
+      setSuccess(
+        result.status === "created"
+          ? "Fingerprint saved successfully!"
+          : "Recording added as an extra reference successfully!"
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the fingerprint");
+      console.error(err);
+    }
   };
 
   return (
@@ -208,6 +458,27 @@ export default function RecordPage() {
               id="waveform"
               className="h-32 w-full rounded-lg bg-white/5 p-4"
             />
+            {audioChannels && (
+              <div className="mt-4 flex items-center space-x-4">
+                <Button
+                  onClick={() => void wavesurferRef.current?.playPause()}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                  disabled={isProcessing}
+                >
+                  {isPlaying ? "Pause" : "Play"}
+                </Button>
+                {effectChain.length > 0 && (
+                  <span className="text-sm text-white/50">
+                    {isApplyingEffects ? "Applying effects..." : "Previewing with effects"}
+                  </span>
+                )}
+              </div>
+            )}
+            {signals && (
+              <div className="mt-4">
+                <Spectrogram signals={signals} sampleRate={sampleRate} waveformRef={wavesurferRef} />
+              </div>
+            )}
           </motion.div>
           
           <div className="flex flex-col items-center space-y-6">
@@ -270,6 +541,50 @@ export default function RecordPage() {
               className="hidden"
             />
 
+            {audioChannels && (
+              <EffectChainEditor items={effects} onChange={setEffects} disabled={isProcessing} />
+            )}
+
+            {processedChannels && (showReplica ? (
+              <ReplicaPlayer
+                channels={processedChannels}
+                sampleRate={sampleRate}
+                onRender={setReplica}
+                onClose={() => {
+                  setShowReplica(false);
+                  setReplica(null);
+                }}
+              />
+            ) : (
+              <motion.div
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="w-full"
+              >
+                <Button
+                  onClick={() => setShowReplica(true)}
+                  className="w-full h-12 text-lg bg-white/10 hover:bg-white/20 text-white border border-white/10"
+                  disabled={isProcessing}
+                >
+                  <div className="flex items-center space-x-2">
+                    <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+                    </svg>
+                    <span>Replicate</span>
+                  </div>
+                </Button>
+              </motion.div>
+            ))}
+
+            {processedChannels && (
+              <ExportPanel
+                name={name}
+                sampleRate={sampleRate}
+                sources={exportSources}
+                analysis={analysis}
+              />
+            )}
+
             {audioFeatures && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -291,10 +606,55 @@ export default function RecordPage() {
                     </svg>
                   </div>
                 </div>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  rows={2}
+                  className="w-full rounded-lg bg-white/5 px-4 py-3 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+                />
+                <div className="flex space-x-4">
+                  <input
+                    type="text"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="Category (optional)"
+                    className="flex-1 rounded-lg bg-white/5 px-4 py-3 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+                  />
+                  <input
+                    type="text"
+                    value={tags}
+                    onChange={(e) => setTags(e.target.value)}
+                    placeholder="Tags, comma separated"
+                    className="flex-1 rounded-lg bg-white/5 px-4 py-3 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+                  />
+                </div>
+                {audioChannels && audioChannels.length > 1 && (
+                  <select
+                    value={formatChannelStrategy(channelStrategy)}
+                    onChange={(e) => changeChannelStrategy(e.target.value)}
+                    className="w-full rounded-lg bg-white/5 px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+                  >
+                    <option value="mono">{CHANNEL_STRATEGY_LABELS.mono}</option>
+                    <option value="mid-side">{CHANNEL_STRATEGY_LABELS["mid-side"]}</option>
+                    <option value="per-channel">{CHANNEL_STRATEGY_LABELS["per-channel"]}</option>
+                    {audioChannels.map((_, channel) => (
+                      <option key={channel} value={formatChannelStrategy({ type: "channel", channel })}>
+                        {CHANNEL_STRATEGY_LABELS.channel}: {channel + 1}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 <Button
-                  onClick={saveFingerprint}
+                  onClick={() => void saveFingerprint()}
                   className="w-full h-12 text-lg bg-green-600 hover:bg-green-700"
-                  disabled={isProcessing || !name.trim()}
+                  disabled={
+                    isProcessing ||
+                    isApplyingEffects ||
+                    createFingerprint.isPending ||
+                    !name.trim() ||
+                    !!duplicates
+                  }
                 >
                   <div className="flex items-center space-x-2">
                     <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -303,6 +663,59 @@ export default function RecordPage() {
                     <span>Save Fingerprint</span>
                   </div>
                 </Button>
+
+                {duplicates && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-4 rounded-lg border border-yellow-500/20 bg-yellow-500/10 p-4 text-white"
+                  >
+                    <p className="text-yellow-400">
+                      This sounds like{" "}
+                      {duplicates.length === 1 ? "an entry that is" : "entries that are"} already in
+                      the library:
+                    </p>
+                    <ul className="space-y-2">
+                      {duplicates.map((match) => (
+                        <li key={match.id} className="flex items-center justify-between">
+                          <span>
+                            {match.name}
+                            <span className="text-sm text-white/70">
+                              {" "}
+                              • {formatConfidence(match.falsePositiveRate)} confidence • at{" "}
+                              {formatTimestamp(match.offsetSeconds)}
+                            </span>
+                          </span>
+                          <Button
+                            onClick={() =>
+                              void saveFingerprint({ action: "attach", attachTo: match.id })
+                            }
+                            className="h-8 bg-indigo-600 px-3 hover:bg-indigo-700"
+                            disabled={createFingerprint.isPending}
+                          >
+                            Add as extra reference
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex space-x-4">
+                      <Button
+                        onClick={() => setDuplicates(null)}
+                        className="flex-1 border border-white/10 bg-white/10 text-white hover:bg-white/20"
+                        disabled={createFingerprint.isPending}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={() => void saveFingerprint({ action: "save" })}
+                        className="flex-1 bg-green-600 hover:bg-green-700"
+                        disabled={createFingerprint.isPending}
+                      >
+                        Save as a new entry anyway
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
               </motion.div>
             )}
           </div>
@@ -0,0 +1,225 @@
+"use client";
+
+import { type RefObject, useEffect, useMemo, useRef, useState } from "react";
+import type WaveSurfer from "wavesurfer.js";
+import {
+  SPECTROGRAM_FLOOR_DB,
+  analyzeSpectrogram,
+  frequencyToPosition,
+  positionToFrequency,
+} from "~/lib/spectrogram";
+
+interface SpectrogramProps {
+  /** The signals features are extracted from, as the channel strategy yields them. */
+  signals: Float32Array[];
+  sampleRate: number;
+  /** Waveform whose zoom and scroll position the spectrogram follows. */
+  waveformRef: RefObject<WaveSurfer | null>;
+}
+
+interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+const HEIGHT = 200;
+const MAX_ZOOM = 500;
+const FREQUENCY_LABELS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+// Dark blue through purple and orange to pale yellow, from the dB floor up to full scale
+const PALETTE_STOPS = [
+  [0, 0, 4],
+  [40, 11, 84],
+  [101, 21, 110],
+  [159, 42, 99],
+  [212, 72, 66],
+  [245, 125, 21],
+  [250, 193, 39],
+  [252, 255, 164],
+];
+
+const PALETTE = Array.from({ length: 256 }, (_, i) => {
+  const position = (i / 255) * (PALETTE_STOPS.length - 1);
+  const lower = PALETTE_STOPS[Math.floor(position)]!;
+  const upper = PALETTE_STOPS[Math.ceil(position)]!;
+  const fraction = position - Math.floor(position);
+  return lower.map((value, channel) => value + (upper[channel]! - value) * fraction);
+});
+
+function formatFrequency(frequency: number) {
+  return frequency >= 1000 ? `${frequency / 1000} kHz` : `${frequency} Hz`;
+}
+
+/**
+ * The time range the waveform shows: all of it until it is zoomed in further than its width. Falls
+ * back to the analysed duration while the waveform has no audio loaded.
+ */
+function getVisibleRange(wavesurfer: WaveSurfer, fallbackDuration: number): VisibleRange {
+  const duration = wavesurfer.getDuration() || fallbackDuration;
+  const width = wavesurfer.getWidth();
+  const pxPerSec = wavesurfer.options.minPxPerSec;
+  if (width === 0 || pxPerSec * duration <= width) return { start: 0, end: duration };
+
+  const start = wavesurfer.getScroll() / pxPerSec;
+  return { start, end: Math.min(duration, start + width / pxPerSec) };
+}
+
+/**
+ * Draws the spectrogram feature extraction works on, on a log-frequency axis in dB, with the peaks
+ * it selects for the fingerprint on top. Zooming and scrolling follow the waveform, so the two line
+ * up.
+ */
+export function Spectrogram({ signals, sampleRate, waveformRef }: SpectrogramProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [signalIndex, setSignalIndex] = useState(0);
+  const [showCandidates, setShowCandidates] = useState(false);
+  const [zoom, setZoom] = useState(0);
+  const [visible, setVisible] = useState<VisibleRange | null>(null);
+
+  const signal = signals[signalIndex] ?? signals[0];
+  const analysis = useMemo(
+    () => (signal ? analyzeSpectrogram(signal, sampleRate) : null),
+    [signal, sampleRate]
+  );
+  const duration = analysis?.duration ?? 0;
+
+  useEffect(() => {
+    const wavesurfer = waveformRef.current;
+    if (!wavesurfer) return;
+
+    const update = () => setVisible(getVisibleRange(wavesurfer, duration));
+    const unsubscribe = [
+      wavesurfer.on("ready", update),
+      wavesurfer.on("redraw", update),
+      wavesurfer.on("scroll", update),
+      wavesurfer.on("zoom", (minPxPerSec) => {
+        setZoom(minPxPerSec);
+        update();
+      }),
+    ];
+    update();
+
+    return () => unsubscribe.forEach((off) => off());
+  }, [waveformRef, duration]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !analysis) return;
+
+    const width = canvas.clientWidth;
+    canvas.width = width;
+    canvas.height = HEIGHT;
+    if (width === 0) return;
+
+    const { start, end } = visible ?? { start: 0, end: analysis.duration };
+    const span = Math.max(end - start, analysis.frameSeconds);
+    const toX = (time: number) => ((time - start) / span) * width;
+    const toY = (frequency: number) => (1 - frequencyToPosition(frequency)) * HEIGHT;
+
+    // The bin drawn on every row and the frame drawn in every column
+    const rowBins = Array.from({ length: HEIGHT }, (_, y) =>
+      Math.round(positionToFrequency(1 - (y + 0.5) / HEIGHT) / analysis.binHz)
+    );
+    const image = context.createImageData(width, HEIGHT);
+    for (let x = 0; x < width; x++) {
+      const time = start + ((x + 0.5) / width) * span;
+      const levels = analysis.levels[Math.floor(time / analysis.frameSeconds)];
+      for (let y = 0; y < HEIGHT; y++) {
+        const level = levels?.[rowBins[y]!] ?? SPECTROGRAM_FLOOR_DB;
+        const color = PALETTE[Math.round((1 - level / SPECTROGRAM_FLOOR_DB) * 255)]!;
+        const offset = (y * width + x) * 4;
+        image.data[offset] = color[0]!;
+        image.data[offset + 1] = color[1]!;
+        image.data[offset + 2] = color[2]!;
+        image.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+
+    context.font = "10px sans-serif";
+    context.fillStyle = "rgba(255, 255, 255, 0.5)";
+    context.strokeStyle = "rgba(255, 255, 255, 0.15)";
+    FREQUENCY_LABELS.forEach((frequency) => {
+      const y = Math.round(toY(frequency)) + 0.5;
+      context.beginPath();
+      context.moveTo(0, y);
+      context.lineTo(width, y);
+      context.stroke();
+      context.fillText(formatFrequency(frequency), 4, y - 2);
+    });
+
+    // Peaks are timed by the start of their frame, so they are drawn in the middle of its column
+    const drawPeak = (peak: { time: number; frequency: number }, radius: number) => {
+      const x = toX(peak.time + analysis.frameSeconds / 2);
+      if (x < -radius || x > width + radius) return;
+      context.beginPath();
+      context.arc(x, toY(peak.frequency), radius, 0, 2 * Math.PI);
+      context.fill();
+      context.stroke();
+    };
+
+    if (showCandidates) {
+      context.fillStyle = "rgba(255, 255, 255, 0.35)";
+      context.strokeStyle = "transparent";
+      analysis.candidates.forEach((peak) => drawPeak(peak, 1.5));
+    }
+    context.fillStyle = "#22D3EE";
+    context.strokeStyle = "#0E7490";
+    analysis.selected.forEach((peak) => drawPeak(peak, 3));
+  }, [analysis, visible, showCandidates]);
+
+  const changeZoom = (value: number) => {
+    setZoom(value);
+    const wavesurfer = waveformRef.current;
+    // Zooming throws until the waveform has audio loaded
+    if (wavesurfer && wavesurfer.getDuration() > 0) {
+      wavesurfer.zoom(value);
+    }
+  };
+
+  if (!analysis) return null;
+
+  return (
+    <div className="w-full space-y-2">
+      <canvas ref={canvasRef} className="block w-full rounded-lg" style={{ height: HEIGHT }} />
+      <div className="flex flex-wrap items-center gap-4 text-sm text-white/70">
+        <span>
+          {analysis.selected.length} of {analysis.candidates.length} candidate peaks selected,{" "}
+          {analysis.landmarkCount} landmarks
+        </span>
+        {signals.length > 1 && (
+          <select
+            value={signalIndex}
+            onChange={(e) => setSignalIndex(Number(e.target.value))}
+            className="rounded-lg bg-white/5 px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-white/10"
+          >
+            {signals.map((_, i) => (
+              <option key={i} value={i}>
+                Signal {i + 1}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={showCandidates}
+            onChange={(e) => setShowCandidates(e.target.checked)}
+          />
+          <span>Show candidates</span>
+        </label>
+        <label className="flex flex-1 items-center space-x-2">
+          <span>Zoom</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_ZOOM}
+            value={zoom}
+            onChange={(e) => changeZoom(Number(e.target.value))}
+            className="flex-1 accent-indigo-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
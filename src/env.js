@@ -11,6 +11,8 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    // Where the original audio of enrolled fingerprints is kept
+    AUDIO_STORAGE_DIR: z.string().default("./data/audio"),
   },
 
   /**
@@ -29,6 +31,7 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    AUDIO_STORAGE_DIR: process.env.AUDIO_STORAGE_DIR,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ANALYSIS_SAMPLE_RATE,
+  compareFingerprints,
+  compareLandmarks,
+  extractAudioFeatures,
+  generateFingerprint,
+  generateLandmarks,
+  getFingerprintVersion,
+  parseFingerprint,
+} from "~/lib/audio";
+import { createChanceBaseline, estimateFalsePositiveRate } from "~/lib/confidence";
+import { createRandom } from "~/lib/distortions";
+import { type AudioFeatures, type Landmark } from "~/types/audio";
+
+const SAMPLE_RATE = ANALYSIS_SAMPLE_RATE;
+
+/** Notes of random pitch and length, which give the peak picker something to find. */
+function melody(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let start = 0;
+  while (start < samples.length) {
+    const length = Math.round((0.1 + random() * 0.2) * SAMPLE_RATE);
+    const frequency = 200 * 15 ** random();
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[start + i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    start += length;
+  }
+  return samples;
+}
+
+function features(peaks: { amplitude: number; frequency: number; time: number }[]): AudioFeatures {
+  return {
+    peaks: peaks.map((peak) => peak.amplitude),
+    frequencies: peaks.map((peak) => peak.frequency),
+    timestamps: peaks.map((peak) => peak.time),
+  };
+}
+
+/** The `amplitude:frequency:time` triples fingerprints were stored as before landmark hashing. */
+function legacyFingerprint({ peaks, frequencies, timestamps }: AudioFeatures): string {
+  return peaks
+    .map((peak, i) => {
+      const frequency = Math.round(frequencies[i]! / 10) * 10;
+      const time = Math.round(timestamps[i]! * 10) / 10;
+      return `${peak.toFixed(2)}:${frequency}:${time}`;
+    })
+    .join("|");
+}
+
+describe("generateLandmarks", () => {
+  it("packs each peak pair as (f1 * 1024 + f2) * 256 + Δt at the anchor's time", () => {
+    const landmarks = generateLandmarks(
+      features([
+        { amplitude: 1, frequency: 1000, time: 0.5 },
+        { amplitude: 1, frequency: 1500, time: 0.8 },
+      ])
+    );
+    expect(landmarks).toEqual([{ hash: (100 * 1024 + 150) * 256 + 30, anchorTime: 50 }]);
+  });
+
+  it("only pairs peaks within the target zone", () => {
+    const landmarks = generateLandmarks(
+      features([
+        { amplitude: 1, frequency: 1000, time: 0 },
+        // Too far above the anchor
+        { amplitude: 1, frequency: 3500, time: 0.1 },
+        // Too long after it
+        { amplitude: 1, frequency: 1000, time: 2.5 },
+      ])
+    );
+    expect(landmarks).toEqual([]);
+  });
+});
+
+describe("parseFingerprint", () => {
+  it("reads back the landmarks of a fingerprint", () => {
+    const extracted = extractAudioFeatures(melody(3, 1), SAMPLE_RATE);
+    const fingerprint = generateFingerprint(extracted);
+
+    expect(getFingerprintVersion(fingerprint)).toBe(2);
+    expect(parseFingerprint(fingerprint)).toEqual({
+      version: 2,
+      landmarks: generateLandmarks(extracted),
+    });
+  });
+
+  it("reads untagged fingerprints as legacy triples", () => {
+    const fingerprint = "0.52:440:0.1|0.31:880:0.2|0.40:1320:0.3";
+
+    expect(getFingerprintVersion(fingerprint)).toBe(1);
+    expect(parseFingerprint(fingerprint)).toEqual({
+      version: 1,
+      features: {
+        peaks: [0.52, 0.31, 0.4],
+        frequencies: [440, 880, 1320],
+        timestamps: [0.1, 0.2, 0.3],
+      },
+    });
+  });
+
+  it("rejects fingerprints from a newer format", () => {
+    expect(() => parseFingerprint("v9|1:2")).toThrow("Unsupported fingerprint version: v9");
+  });
+});
+
+describe("compareLandmarks", () => {
+  it("scores the largest cluster of hashes at one offset", () => {
+    const reference: Landmark[] = Array.from({ length: 50 }, (_, i) => ({
+      hash: i,
+      anchorTime: 300 + 7 * i,
+    }));
+    // Ten hashes 3s into the reference, and five more scattered elsewhere
+    const query = [
+      ...Array.from({ length: 10 }, (_, i) => ({ hash: i + 20, anchorTime: 7 * (i + 20) })),
+      ...[3, 9, 14, 41, 47].map((hash, i) => ({ hash, anchorTime: 100 * i })),
+    ];
+
+    const match = compareLandmarks(query, reference);
+    expect(match.offsetSeconds).toBeCloseTo(3, 5);
+    expect(match.alignedHashCount).toBe(10);
+    expect(match.hashMatchCount).toBe(15);
+    expect(match.similarity).toBeCloseTo(10 / 15, 5);
+    expect(match.alignedQuerySpan?.start).toBeCloseTo(1.4, 5);
+    expect(match.alignedQuerySpan?.end).toBeCloseTo(2.03, 5);
+  });
+
+  it("counts a query hash repeated in the reference once", () => {
+    const reference = [0, 1, 2].map((i) => ({ hash: 1, anchorTime: 500 + i }));
+    const match = compareLandmarks([{ hash: 1, anchorTime: 0 }], reference);
+    expect(match.alignedHashCount).toBe(1);
+    expect(match.hashMatchCount).toBe(3);
+  });
+});
+
+describe("compareFingerprints", () => {
+  const samples = melody(10, 1);
+  const reference = extractAudioFeatures(samples, SAMPLE_RATE);
+
+  it.each([3, 4.37])("finds where an excerpt starting at %fs lines up", (start) => {
+    const excerpt = samples.subarray(
+      Math.round(start * SAMPLE_RATE),
+      Math.round((start + 4) * SAMPLE_RATE)
+    );
+    const query = generateFingerprint(extractAudioFeatures(excerpt, SAMPLE_RATE));
+
+    const match = compareFingerprints(query, generateFingerprint(reference));
+    expect(Math.abs(match.offsetSeconds - start)).toBeLessThan(0.05);
+
+    // The aligned hashes are far more than any unrelated recording lines up by chance
+    const chanceCounts = Array.from(
+      { length: 10 },
+      (_, i) =>
+        compareFingerprints(
+          query,
+          generateFingerprint(extractAudioFeatures(melody(10, i + 2), SAMPLE_RATE))
+        ).alignedHashCount
+    );
+    const baseline = createChanceBaseline(11, [...chanceCounts, match.alignedHashCount]);
+    const statistics = {
+      alignedHashCount: match.alignedHashCount,
+      hashMatchCount: match.hashMatchCount!,
+      queryDuration: 4,
+      referenceDuration: 10,
+    };
+    expect(estimateFalsePositiveRate(statistics, baseline)).toBeLessThan(1e-6);
+  });
+
+  it("matches a legacy fingerprint against a landmark one", () => {
+    const legacy = legacyFingerprint(reference);
+    const unrelated = legacyFingerprint(extractAudioFeatures(melody(10, 2), SAMPLE_RATE));
+    const query = generateFingerprint(reference);
+
+    const match = compareFingerprints(query, legacy);
+    expect(match.offsetSeconds).toBeCloseTo(0, 1);
+    expect(match.alignedHashCount).toBeGreaterThan(
+      5 * compareFingerprints(query, unrelated).alignedHashCount
+    );
+  });
+});
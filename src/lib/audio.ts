@@ -1,94 +1,162 @@
-import { type AudioFeatures } from "~/types/audio";
+import {
+  type AudioFeatures,
+  type FingerprintComparison,
+  type Landmark,
+  type ParsedFingerprint,
+  type PlaybackScale,
+  type SpectralPeak,
+} from "~/types/audio";
+import { formatChannelStrategy, prepareChannels, type ChannelStrategy } from "~/lib/channels";
+import { resample } from "~/lib/resample";
+import { binFrequency, stft, type StftFrame } from "~/lib/stft";
 
-const SAMPLE_RATE = 44100;
-const FFT_SIZE = 2048;
+/**
+ * Every signal is resampled to this rate before analysis, so frequencies and timestamps mean the
+ * same thing whatever rate the source was recorded or decoded at.
+ */
+export const ANALYSIS_SAMPLE_RATE = 44100;
+export const FFT_SIZE = 2048;
+export const HOP_SIZE = FFT_SIZE / 2;
 const MIN_FREQUENCY = 20;
 const MAX_FREQUENCY = 8000;
 const PEAK_THRESHOLD = 0.05;
+const FALLBACK_PEAK_THRESHOLD = PEAK_THRESHOLD * 0.5;
 const MIN_PEAKS = 5;
 const MAX_PEAKS = 200;
 const TIME_WINDOW = 0.05;
+// Peaks are selected separately for each stretch this long, the most MAX_PEAKS can cover at one
+// peak per time window, so the cap doesn't drop most of a long recording
+const FEATURE_SEGMENT_SECONDS = MAX_PEAKS * TIME_WINDOW;
 const FREQUENCY_BANDS = [
   { min: 20, max: 300 },    // Bass
   { min: 300, max: 2000 },  // Mid
   { min: 2000, max: 8000 }, // High
 ] as const;
 
-interface Peak {
-  amplitude: number;
-  frequency: number;
-  time: number;
+export const FINGERPRINT_VERSION = 2;
+const LANDMARK_TIME_STEP = 0.01; // Seconds per anchor time / Δt tick
+const LANDMARK_FREQUENCY_STEP = 10; // Hz per frequency bin in landmark hashes
+const LANDMARK_FREQUENCY_BINS = 1024;
+const LANDMARK_DELTA_RANGE = 256;
+const LEGACY_TIME_STEP = 0.1;
+const TARGET_ZONE_MAX_DT = 2;
+const TARGET_ZONE_FREQUENCY_RANGE = 2000;
+const TARGET_ZONE_FAN_OUT = 5;
+const OFFSET_BIN_TICKS = 5; // Width of the offset histogram bins used for alignment voting
+export const OFFSET_BIN_SECONDS = OFFSET_BIN_TICKS * LANDMARK_TIME_STEP;
+/** Offset bins pooled into one cluster when voting: a bin and its two neighbours. */
+export const OFFSET_CLUSTER_BINS = 3;
+const SCALE_SEARCH_STEP = 0.01; // Between the pitch and tempo factors a scale search tries
+// Rescaled landmarks are only accurate to about an FFT bin and a hop, so they are compared with
+// frequencies and Δt rounded to this many bins and ticks
+const RESCALED_KEY_FREQUENCY_BINS = 2;
+const RESCALED_KEY_DELTA_TICKS = 3;
+
+/**
+ * Bumped whenever extraction or landmark generation changes in a way `ALGORITHM_PARAMETERS` doesn't
+ * capture. Fingerprints made with another version or other parameters don't share hashes with
+ * current queries, so they have to be regenerated from their source audio.
+ */
+export const ALGORITHM_VERSION = 2;
+
+/** Every constant that affects which landmarks a recording produces, serialized for storage. */
+export const ALGORITHM_PARAMETERS = JSON.stringify({
+  fingerprintVersion: FINGERPRINT_VERSION,
+  analysisSampleRate: ANALYSIS_SAMPLE_RATE,
+  fftSize: FFT_SIZE,
+  hopSize: HOP_SIZE,
+  minFrequency: MIN_FREQUENCY,
+  maxFrequency: MAX_FREQUENCY,
+  peakThreshold: PEAK_THRESHOLD,
+  fallbackPeakThreshold: FALLBACK_PEAK_THRESHOLD,
+  minPeaks: MIN_PEAKS,
+  maxPeaks: MAX_PEAKS,
+  timeWindow: TIME_WINDOW,
+  frequencyBands: FREQUENCY_BANDS,
+  landmarkTimeStep: LANDMARK_TIME_STEP,
+  landmarkFrequencyStep: LANDMARK_FREQUENCY_STEP,
+  targetZoneMaxDt: TARGET_ZONE_MAX_DT,
+  targetZoneFrequencyRange: TARGET_ZONE_FREQUENCY_RANGE,
+  targetZoneFanOut: TARGET_ZONE_FAN_OUT,
+});
+
+export interface FingerprintAlgorithm {
+  algorithmVersion: number | null;
+  algorithmParameters: string | null;
+}
+
+export const CURRENT_ALGORITHM = {
+  algorithmVersion: ALGORITHM_VERSION,
+  algorithmParameters: ALGORITHM_PARAMETERS,
+} satisfies FingerprintAlgorithm;
+
+/**
+ * Whether a fingerprint was made by the current algorithm. Rows from before versions were recorded
+ * have neither field and never are.
+ */
+export function isCurrentAlgorithm(algorithm: FingerprintAlgorithm): boolean {
+  return (
+    algorithm.algorithmVersion === ALGORITHM_VERSION &&
+    algorithm.algorithmParameters === ALGORITHM_PARAMETERS
+  );
 }
 
 type BandKey = `${typeof FREQUENCY_BANDS[number]["min"]}-${typeof FREQUENCY_BANDS[number]["max"]}`;
 
-export function extractAudioFeatures(audioData: Float32Array): AudioFeatures {
-  const audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
-  const buffer = audioContext.createBuffer(1, audioData.length, SAMPLE_RATE);
-  buffer.copyToChannel(audioData, 0);
+export function extractAudioFeatures(audioData: Float32Array, sampleRate: number): AudioFeatures {
+  const frames = computeAnalysisFrames(audioData, sampleRate);
+  return selectFeatures(frames.flatMap(frame => findCandidatePeaks(frame)));
+}
+
+/**
+ * The STFT frames feature extraction finds peaks in, at `ANALYSIS_SAMPLE_RATE`. Exposed so the
+ * analysis can be visualized.
+ */
+export function computeAnalysisFrames(audioData: Float32Array, sampleRate: number): StftFrame[] {
+  const analysisData = resample(audioData, sampleRate, ANALYSIS_SAMPLE_RATE);
+  return stft(analysisData, ANALYSIS_SAMPLE_RATE, {
+    fftSize: FFT_SIZE,
+    hopSize: HOP_SIZE,
+  });
+}
+
+/**
+ * Every spectral peak of a frame that feature selection might use, including the weaker ones only
+ * kept when a recording has too few strong peaks. Exposed so audio can be analysed frame by frame
+ * as it streams in.
+ */
+export function findCandidatePeaks(frame: StftFrame): SpectralPeak[] {
+  return findSpectralPeaks(frame, FALLBACK_PEAK_THRESHOLD);
+}
 
-  const analyser = audioContext.createAnalyser();
-  analyser.fftSize = FFT_SIZE;
-  const source = audioContext.createBufferSource();
-  source.buffer = buffer;
-  source.connect(analyser);
+/**
+ * Picks the peaks that make up a recording's features from the candidates of all its frames.
+ */
+export function selectFeatures(candidates: SpectralPeak[]): AudioFeatures {
+  const segments = new Map<number, SpectralPeak[]>();
+  for (const peak of candidates) {
+    const segment = Math.floor(peak.time / FEATURE_SEGMENT_SECONDS);
+    const segmentPeaks = segments.get(segment) ?? [];
+    segmentPeaks.push(peak);
+    segments.set(segment, segmentPeaks);
+  }
 
-  const frequencies = new Float32Array(analyser.frequencyBinCount);
   const peaks: number[] = [];
   const timestamps: number[] = [];
   const frequencyData: number[] = [];
-  
-  // Initialize bandPeaks with all possible band keys
-  const bandPeaks = FREQUENCY_BANDS.reduce((acc, band) => {
-    const bandKey: BandKey = `${band.min}-${band.max}`;
-    acc[bandKey] = [];
-    return acc;
-  }, {} as { [K in BandKey]: Peak[] });
-
-  // Process the audio in chunks
-  const chunkSize = FFT_SIZE;
-  for (let offset = 0; offset < audioData.length; offset += chunkSize) {
-    analyser.getFloatFrequencyData(frequencies);
-    const time = offset / SAMPLE_RATE;
-    
-    // Find peaks in each frequency band
-    for (let i = 0; i < frequencies.length; i++) {
-      const frequency = i * SAMPLE_RATE / FFT_SIZE;
-      const frequencyValue = frequencies.at(i);
-      
-      if (frequencyValue !== undefined) {
-        const amplitude = Math.pow(10, frequencyValue / 20);
-        
-        // Find which frequency band this belongs to
-        const band = FREQUENCY_BANDS.find(b => frequency >= b.min && frequency <= b.max);
-        if (band && amplitude > PEAK_THRESHOLD) {
-          const bandKey: BandKey = `${band.min}-${band.max}`;
-          const peak: Peak = { amplitude, frequency, time };
-          bandPeaks[bandKey].push(peak);
-        }
-      }
-    }
-  }
-
-  // Process peaks in each band
-  Object.entries(bandPeaks).forEach(([band, bandPeaks]) => {
-    // Sort peaks by amplitude
-    bandPeaks.sort((a, b) => b.amplitude - a.amplitude);
-    
-    // Take the strongest peaks while maintaining time distribution
-    const selectedPeaks = selectPeaksWithTimeDistribution(bandPeaks);
-    
-    selectedPeaks.forEach(peak => {
-      peaks.push(peak.amplitude);
-      frequencyData.push(peak.frequency);
-      timestamps.push(peak.time);
+  [...segments]
+    .sort(([a], [b]) => a - b)
+    .forEach(([, segmentPeaks]) => {
+      selectSegmentPeaks(segmentPeaks).forEach(peak => {
+        peaks.push(peak.amplitude);
+        frequencyData.push(peak.frequency);
+        timestamps.push(peak.time);
+      });
     });
-  });
 
   // If we don't have enough peaks, try to get more by lowering the threshold
   if (peaks.length < MIN_PEAKS) {
-    // Try to find more peaks with a lower threshold
-    const additionalPeaks = findAdditionalPeaks(audioData, PEAK_THRESHOLD * 0.5);
+    const additionalPeaks = findAdditionalPeaks(candidates);
     if (additionalPeaks.length > 0) {
       peaks.push(...additionalPeaks.map(p => p.amplitude));
       frequencyData.push(...additionalPeaks.map(p => p.frequency));
@@ -105,51 +173,116 @@ export function extractAudioFeatures(audioData: Float32Array): AudioFeatures {
   };
 }
 
-function findAdditionalPeaks(audioData: Float32Array, threshold: number): Peak[] {
-  const audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
-  const buffer = audioContext.createBuffer(1, audioData.length, SAMPLE_RATE);
-  buffer.copyToChannel(audioData, 0);
-
-  const analyser = audioContext.createAnalyser();
-  analyser.fftSize = FFT_SIZE;
-  const source = audioContext.createBufferSource();
-  source.buffer = buffer;
-  source.connect(analyser);
-
-  const frequencies = new Float32Array(analyser.frequencyBinCount);
-  const additionalPeaks: Peak[] = [];
-
-  analyser.getFloatFrequencyData(frequencies);
-  for (let i = 0; i < frequencies.length; i++) {
-    const frequency = i * SAMPLE_RATE / FFT_SIZE;
-    const frequencyValue = frequencies.at(i);
-    
-    if (frequencyValue !== undefined) {
-      const amplitude = Math.pow(10, frequencyValue / 20);
-      if (amplitude > threshold) {
-        additionalPeaks.push({
-          amplitude,
-          frequency,
-          time: 0,
-        });
-      }
+/**
+ * The strongest peaks of one feature segment, spread over time within each frequency band.
+ */
+function selectSegmentPeaks(candidates: SpectralPeak[]): SpectralPeak[] {
+  const selected: SpectralPeak[] = [];
+
+  // Initialize bandPeaks with all possible band keys
+  const bandPeaks = FREQUENCY_BANDS.reduce((acc, band) => {
+    const bandKey: BandKey = `${band.min}-${band.max}`;
+    acc[bandKey] = [];
+    return acc;
+  }, {} as Record<BandKey, SpectralPeak[]>);
+
+  // Sort the strong peaks into frequency bands
+  for (const peak of candidates) {
+    if (peak.amplitude <= PEAK_THRESHOLD) continue;
+
+    const band = FREQUENCY_BANDS.find(b => peak.frequency >= b.min && peak.frequency <= b.max);
+    if (band) {
+      const bandKey: BandKey = `${band.min}-${band.max}`;
+      bandPeaks[bandKey].push(peak);
+    }
+  }
+
+  // Process peaks in each band
+  Object.values(bandPeaks).forEach((bandPeaks) => {
+    // Sort peaks by amplitude
+    bandPeaks.sort((a, b) => b.amplitude - a.amplitude);
+
+    // Take the strongest peaks while maintaining time distribution
+    const selectedPeaks = selectPeaksWithTimeDistribution(bandPeaks);
+
+    selected.push(...selectedPeaks);
+  });
+
+  return selected;
+}
+
+/**
+ * Extracts features from each signal a channel strategy produces. Pass all of them to
+ * `generateFingerprint` to get a single fingerprint.
+ */
+export function extractChannelFeatures(
+  channels: Float32Array[],
+  sampleRate: number,
+  strategy: ChannelStrategy
+): AudioFeatures[] {
+  return prepareChannels(channels, strategy).map(signal =>
+    extractAudioFeatures(signal, sampleRate)
+  );
+}
+
+/**
+ * Fingerprints a query with each of the given strategies, keyed by formatted strategy, to send along
+ * with its `IDENTIFY_CHANNEL_STRATEGY` fingerprint.
+ */
+export function generateStrategyFingerprints(
+  channels: Float32Array[],
+  sampleRate: number,
+  strategies: ChannelStrategy[]
+): Record<string, string> {
+  return Object.fromEntries(
+    strategies.map((strategy) => [
+      formatChannelStrategy(strategy),
+      generateFingerprint(...extractChannelFeatures(channels, sampleRate, strategy)),
+    ])
+  );
+}
+
+/**
+ * Local maxima of a frame's magnitude spectrum between MIN_FREQUENCY and MAX_FREQUENCY that rise
+ * above the given threshold.
+ */
+function findSpectralPeaks(frame: StftFrame, threshold: number): SpectralPeak[] {
+  const { magnitudes, time } = frame;
+  const spectralPeaks: SpectralPeak[] = [];
+
+  for (let bin = 1; bin < magnitudes.length - 1; bin++) {
+    const frequency = binFrequency(bin, ANALYSIS_SAMPLE_RATE, FFT_SIZE);
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+
+    const amplitude = magnitudes[bin]!;
+    if (
+      amplitude > threshold &&
+      amplitude >= magnitudes[bin - 1]! &&
+      amplitude > magnitudes[bin + 1]!
+    ) {
+      spectralPeaks.push({ amplitude, frequency, time });
     }
   }
 
-  return additionalPeaks;
+  return spectralPeaks;
 }
 
-function selectPeaksWithTimeDistribution(peaks: Peak[]): Peak[] {
-  const selected: Peak[] = [];
-  const timeWindows: { [key: number]: Peak[] } = {};
-  
+function findAdditionalPeaks(candidates: SpectralPeak[]): SpectralPeak[] {
+  const additionalPeaks = [...candidates];
+
+  // Keep the strongest ones so quiet recordings don't flood the fingerprint
+  additionalPeaks.sort((a, b) => b.amplitude - a.amplitude);
+  return additionalPeaks.slice(0, MAX_PEAKS);
+}
+
+function selectPeaksWithTimeDistribution(peaks: SpectralPeak[]): SpectralPeak[] {
+  const selected: SpectralPeak[] = [];
+  const timeWindows: Record<number, SpectralPeak[]> = {};
+
   // Group peaks by time windows
   peaks.forEach(peak => {
     const windowKey = Math.floor(peak.time / TIME_WINDOW);
-    if (!timeWindows[windowKey]) {
-      timeWindows[windowKey] = [];
-    }
-    timeWindows[windowKey].push(peak);
+    (timeWindows[windowKey] ??= []).push(peak);
   });
 
   // Select the strongest peak from each time window
@@ -172,42 +305,409 @@ function selectPeaksWithTimeDistribution(peaks: Peak[]): Peak[] {
   return selected.slice(0, MAX_PEAKS);
 }
 
-export function generateFingerprint(features: AudioFeatures): string {
-  // Create a more robust fingerprint by combining multiple features
-  const fingerprint = features.peaks
-    .map((peak, i) => {
-      const freq = features.frequencies[i];
-      const time = features.timestamps[i];
-      if (freq === undefined || time === undefined) return "";
-      
-      // Normalize the values for better matching
-      const normalizedPeak = peak.toFixed(2);
-      const normalizedFreq = Math.round(freq / 10) * 10; // Round to nearest 10Hz
-      const normalizedTime = Math.round(time * 10) / 10; // Round to nearest 0.1s
-      
-      return `${normalizedPeak}:${normalizedFreq}:${normalizedTime}`;
-    })
-    .filter(Boolean)
-    .join("|");
+/**
+ * Builds constellation-map landmarks: every peak becomes an anchor that is paired with up to
+ * TARGET_ZONE_FAN_OUT later peaks inside its target zone. Each pair is hashed as (f1, f2, Δt), so
+ * the hash doesn't depend on where in the recording the pair occurs.
+ */
+export function generateLandmarks(features: AudioFeatures): Landmark[] {
+  const constellation = features.peaks
+    .map((amplitude, i) => ({
+      amplitude,
+      frequency: features.frequencies[i],
+      time: features.timestamps[i],
+    }))
+    .filter((peak): peak is SpectralPeak => peak.frequency !== undefined && peak.time !== undefined)
+    .map(peak => ({
+      frequencyBin: Math.round(peak.frequency / LANDMARK_FREQUENCY_STEP),
+      tick: Math.round(peak.time / LANDMARK_TIME_STEP),
+    }))
+    .filter(peak => peak.frequencyBin > 0 && peak.frequencyBin < LANDMARK_FREQUENCY_BINS)
+    .sort((a, b) => a.tick - b.tick || a.frequencyBin - b.frequencyBin);
+
+  const maxDeltaTicks = Math.round(TARGET_ZONE_MAX_DT / LANDMARK_TIME_STEP);
+  const maxDeltaBins = Math.round(TARGET_ZONE_FREQUENCY_RANGE / LANDMARK_FREQUENCY_STEP);
+  const landmarks: Landmark[] = [];
+
+  constellation.forEach((anchor, i) => {
+    let paired = 0;
+    for (let j = i + 1; j < constellation.length && paired < TARGET_ZONE_FAN_OUT; j++) {
+      const target = constellation[j]!;
+      const deltaTicks = target.tick - anchor.tick;
+      if (deltaTicks > maxDeltaTicks) break;
+      if (deltaTicks === 0 || Math.abs(target.frequencyBin - anchor.frequencyBin) > maxDeltaBins) {
+        continue;
+      }
+
+      landmarks.push({
+        hash: packLandmarkHash(anchor.frequencyBin, target.frequencyBin, deltaTicks),
+        anchorTime: anchor.tick,
+      });
+      paired++;
+    }
+  });
+
+  return landmarks;
+}
+
+/**
+ * Fingerprints one or more feature sets. Landmarks are only formed within a feature set, so the
+ * signals of a multichannel strategy don't pair peaks across channels.
+ */
+export function generateFingerprint(...featureSets: AudioFeatures[]): string {
+  return serializeLandmarks(featureSets.flatMap(features => generateLandmarks(features)));
+}
+
+function serializeLandmarks(landmarks: Landmark[]): string {
+  return [
+    `v${FINGERPRINT_VERSION}`,
+    ...landmarks.map(landmark => `${landmark.hash}:${landmark.anchorTime}`),
+  ].join("|");
+}
+
+/**
+ * Fingerprints written before landmark hashing have no version tag: they are `|`-separated
+ * `amplitude:frequency:time` triples and are reported as version 1.
+ */
+export function getFingerprintVersion(fingerprint: string): number {
+  const match = /^v(\d+)(?:\||$)/.exec(fingerprint);
+  return match?.[1] ? Number(match[1]) : 1;
+}
+
+export function parseFingerprint(fingerprint: string): ParsedFingerprint {
+  const version = getFingerprintVersion(fingerprint);
+
+  if (version === 1) {
+    return { version, features: parseLegacyFingerprint(fingerprint) };
+  }
+
+  if (version === FINGERPRINT_VERSION) {
+    const landmarks = fingerprint
+      .split("|")
+      .slice(1)
+      .map(entry => entry.split(":").map(Number))
+      .filter((entry): entry is [number, number] =>
+        entry.length === 2 && entry.every(Number.isInteger)
+      )
+      .map(([hash, anchorTime]) => ({ hash, anchorTime }));
+    return { version, landmarks };
+  }
+
+  throw new Error(`Unsupported fingerprint version: v${version}`);
+}
+
+function parseLegacyFingerprint(fingerprint: string): AudioFeatures {
+  const features: AudioFeatures = { peaks: [], frequencies: [], timestamps: [] };
+
+  for (const entry of fingerprint.split("|")) {
+    const [peak, frequency, time] = entry.split(":").map(Number);
+    if (peak === undefined || frequency === undefined || time === undefined) continue;
+    if ([peak, frequency, time].some(Number.isNaN)) continue;
+
+    features.peaks.push(peak);
+    features.frequencies.push(frequency);
+    features.timestamps.push(time);
+  }
+
+  return features;
+}
+
+function packLandmarkHash(f1: number, f2: number, deltaTicks: number): number {
+  return (f1 * LANDMARK_FREQUENCY_BINS + f2) * LANDMARK_DELTA_RANGE + deltaTicks;
+}
+
+function unpackLandmarkHash(hash: number): { f1: number; f2: number; deltaTicks: number } {
+  const deltaTicks = hash % LANDMARK_DELTA_RANGE;
+  const frequencies = Math.floor(hash / LANDMARK_DELTA_RANGE);
+  return {
+    f1: Math.floor(frequencies / LANDMARK_FREQUENCY_BINS),
+    f2: frequencies % LANDMARK_FREQUENCY_BINS,
+    deltaTicks,
+  };
+}
+
+/**
+ * Legacy fingerprints only kept timestamps to the nearest 0.1s, so when one side of a comparison is
+ * legacy, landmark hashes are compared with Δt rounded to that resolution.
+ */
+function coarseLandmarkKey(hash: number): number {
+  const { f1, f2, deltaTicks } = unpackLandmarkHash(hash);
+  const coarseDelta = Math.round((deltaTicks * LANDMARK_TIME_STEP) / LEGACY_TIME_STEP);
+  return packLandmarkHash(f1, f2, coarseDelta);
+}
+
+/**
+ * Matches query landmarks against a reference by histogramming the time offset between every pair
+ * of matching hashes. Hashes from the same sound line up at a single offset, while chance matches
+ * scatter, so only the largest aligned cluster counts towards the score.
+ */
+export function compareLandmarks(
+  query: Landmark[],
+  reference: Landmark[],
+  toKey: (hash: number) => number = hash => hash
+): FingerprintComparison {
+  return alignLandmarks(query, indexAnchors(reference, toKey), toKey);
+}
+
+/**
+ * Anchor times of a reference's landmarks by hash key, so it can be compared with several queries
+ * without being indexed again.
+ */
+function indexAnchors(reference: Landmark[], toKey: (hash: number) => number) {
+  const referenceAnchors = new Map<number, number[]>();
+  for (const landmark of reference) {
+    const key = toKey(landmark.hash);
+    const anchors = referenceAnchors.get(key) ?? [];
+    anchors.push(landmark.anchorTime);
+    referenceAnchors.set(key, anchors);
+  }
+  return referenceAnchors;
+}
+
+function alignLandmarks(
+  query: Landmark[],
+  referenceAnchors: Map<number, number[]>,
+  toKey: (hash: number) => number
+): FingerprintComparison {
+  const noMatch: FingerprintComparison = {
+    similarity: 0,
+    offsetSeconds: 0,
+    alignedHashCount: 0,
+    hashMatchCount: 0,
+    alignedQuerySpan: null,
+  };
+  if (query.length === 0) return noMatch;
+
+  const votes: { queryIndex: number; offset: number }[] = [];
+  const histogram = new Map<number, number>();
+  query.forEach((landmark, queryIndex) => {
+    for (const anchorTime of referenceAnchors.get(toKey(landmark.hash)) ?? []) {
+      const offset = anchorTime - landmark.anchorTime;
+      const bin = Math.round(offset / OFFSET_BIN_TICKS);
+      votes.push({ queryIndex, offset });
+      histogram.set(bin, (histogram.get(bin) ?? 0) + 1);
+    }
+  });
+  if (votes.length === 0) return noMatch;
+
+  // Neighbouring bins are pooled so a cluster straddling a bin edge isn't split in two
+  let bestBin = 0;
+  let bestCount = -1;
+  for (const bin of histogram.keys()) {
+    const count =
+      (histogram.get(bin - 1) ?? 0) + (histogram.get(bin) ?? 0) + (histogram.get(bin + 1) ?? 0);
+    if (count > bestCount) {
+      bestBin = bin;
+      bestCount = count;
+    }
+  }
+
+  const aligned = votes.filter(
+    vote => Math.abs(Math.round(vote.offset / OFFSET_BIN_TICKS) - bestBin) <= 1
+  );
+  // A query landmark can line up with repeated hashes in the reference; count it once
+  const alignedHashCount = new Set(aligned.map(vote => vote.queryIndex)).size;
+  const meanOffset = aligned.reduce((sum, vote) => sum + vote.offset, 0) / aligned.length;
+  let firstAligned = Infinity;
+  let lastAligned = -Infinity;
+  for (const vote of aligned) {
+    const anchorTime = query[vote.queryIndex]!.anchorTime;
+    firstAligned = Math.min(firstAligned, anchorTime);
+    lastAligned = Math.max(lastAligned, anchorTime);
+  }
+
+  return {
+    similarity: alignedHashCount / query.length,
+    offsetSeconds: meanOffset * LANDMARK_TIME_STEP,
+    alignedHashCount,
+    hashMatchCount: votes.length,
+    alignedQuerySpan: {
+      start: firstAligned * LANDMARK_TIME_STEP,
+      end: lastAligned * LANDMARK_TIME_STEP,
+    },
+  };
+}
+
+/**
+ * Seconds between the first and last anchor of a set of landmarks.
+ */
+export function landmarkSpanSeconds(landmarks: Landmark[]): number {
+  if (landmarks.length === 0) return 0;
+  let first = Infinity;
+  let last = -Infinity;
+  for (const landmark of landmarks) {
+    first = Math.min(first, landmark.anchorTime);
+    last = Math.max(last, landmark.anchorTime);
+  }
+  return (last - first) * LANDMARK_TIME_STEP;
+}
+
+/**
+ * Splits a recording's landmarks into windows of `segmentSeconds` that start every `hopSeconds`,
+ * so each stretch of a long recording can be identified on its own. Anchor times stay relative to
+ * the start of the recording.
+ */
+export function segmentLandmarks(
+  landmarks: Landmark[],
+  segmentSeconds: number,
+  hopSeconds: number
+): { startSeconds: number; landmarks: Landmark[] }[] {
+  const sorted = [...landmarks].sort((a, b) => a.anchorTime - b.anchorTime);
+  const lastTick = sorted[sorted.length - 1]?.anchorTime ?? 0;
+  const segmentTicks = Math.round(segmentSeconds / LANDMARK_TIME_STEP);
+  const hopTicks = Math.max(1, Math.round(hopSeconds / LANDMARK_TIME_STEP));
+
+  const segments: { startSeconds: number; landmarks: Landmark[] }[] = [];
+  let first = 0;
+  for (let start = 0; ; start += hopTicks) {
+    while (first < sorted.length && sorted[first]!.anchorTime < start) first++;
+    let last = first;
+    while (last < sorted.length && sorted[last]!.anchorTime < start + segmentTicks) last++;
+    segments.push({
+      startSeconds: start * LANDMARK_TIME_STEP,
+      landmarks: sorted.slice(first, last),
+    });
+    if (start + segmentTicks > lastTick) break;
+  }
+  return segments;
+}
+
+/**
+ * Every combination of pitch and tempo factors up to the given fractions either way (0.05 is ±5%),
+ * in steps of `SCALE_SEARCH_STEP`.
+ */
+export function scaleSearchGrid(maxPitchChange: number, maxTempoChange: number): PlaybackScale[] {
+  const factors = (maxChange: number) => {
+    const steps = Math.floor(maxChange / SCALE_SEARCH_STEP + 1e-9);
+    return Array.from({ length: 2 * steps + 1 }, (_, i) => 1 + (i - steps) * SCALE_SEARCH_STEP);
+  };
+
+  return factors(maxPitchChange).flatMap(pitchFactor =>
+    factors(maxTempoChange).map(tempoFactor => ({ pitchFactor, tempoFactor }))
+  );
+}
+
+/**
+ * Maps the landmarks of a recording played back at another pitch and tempo onto those of the
+ * original, so their hashes can be looked up as usual. Landmarks that fall outside the hash ranges
+ * once rescaled are dropped.
+ */
+export function rescaleLandmarks(landmarks: Landmark[], scale: PlaybackScale): Landmark[] {
+  const { pitchFactor, tempoFactor } = scale;
+  if (pitchFactor === 1 && tempoFactor === 1) return landmarks;
 
-  return fingerprint;
+  const rescaled: Landmark[] = [];
+  for (const landmark of landmarks) {
+    const { f1, f2, deltaTicks } = unpackLandmarkHash(landmark.hash);
+    const scaledF1 = Math.round(f1 / pitchFactor);
+    const scaledF2 = Math.round(f2 / pitchFactor);
+    const scaledDelta = Math.round(deltaTicks * tempoFactor);
+    if (
+      scaledF1 <= 0 ||
+      scaledF1 >= LANDMARK_FREQUENCY_BINS ||
+      scaledF2 <= 0 ||
+      scaledF2 >= LANDMARK_FREQUENCY_BINS ||
+      scaledDelta <= 0 ||
+      scaledDelta >= LANDMARK_DELTA_RANGE
+    ) {
+      continue;
+    }
+
+    rescaled.push({
+      hash: packLandmarkHash(scaledF1, scaledF2, scaledDelta),
+      anchorTime: Math.round(landmark.anchorTime * tempoFactor),
+    });
+  }
+  return rescaled;
 }
 
-export function calculateSimilarity(fingerprint1: string, fingerprint2: string): number {
-  const features1 = fingerprint1.split("|").map(f => f.split(":").map(Number));
-  const features2 = fingerprint2.split("|").map(f => f.split(":").map(Number));
+function rescaledLandmarkKey(hash: number): number {
+  const { f1, f2, deltaTicks } = unpackLandmarkHash(hash);
+  return packLandmarkHash(
+    Math.round(f1 / RESCALED_KEY_FREQUENCY_BINS),
+    Math.round(f2 / RESCALED_KEY_FREQUENCY_BINS),
+    Math.round(deltaTicks / RESCALED_KEY_DELTA_TICKS)
+  );
+}
+
+/**
+ * Compares a query, rescaled to each playback scale searched, against a reference and returns the
+ * scale it lines up best at. Hashes are compared at a coarser resolution than `compareLandmarks`
+ * uses, so more of them survive the rounding errors of rescaling.
+ */
+export function compareRescaledLandmarks(
+  queries: { scale: PlaybackScale; landmarks: Landmark[] }[],
+  reference: Landmark[]
+): { comparison: FingerprintComparison; scale: PlaybackScale } | null {
+  const referenceAnchors = indexAnchors(reference, rescaledLandmarkKey);
+  let best: { comparison: FingerprintComparison; scale: PlaybackScale } | null = null;
+  for (const { scale, landmarks } of queries) {
+    const comparison = alignLandmarks(landmarks, referenceAnchors, rescaledLandmarkKey);
+    if (comparison.alignedHashCount > (best?.comparison.alignedHashCount ?? 0)) {
+      best = { comparison, scale };
+    }
+  }
+  return best;
+}
+
+/**
+ * Scores how much of the query fingerprint is found in the reference, and where in the reference
+ * the query starts. Either side may be in the legacy (v1) format: two legacy fingerprints are
+ * compared triple by triple, and a legacy fingerprint compared with a landmark one is converted to
+ * landmarks first.
+ */
+export function compareFingerprints(
+  queryFingerprint: string,
+  referenceFingerprint: string
+): FingerprintComparison {
+  const query = parseFingerprint(queryFingerprint);
+  const reference = parseFingerprint(referenceFingerprint);
+
+  if (query.version === 1 && reference.version === 1) {
+    return compareLegacyFeatures(query.features, reference.features);
+  }
+
+  if (query.version === 1 || reference.version === 1) {
+    const queryLandmarks =
+      query.version === 1 ? generateLandmarks(query.features) : query.landmarks;
+    const referenceLandmarks =
+      reference.version === 1 ? generateLandmarks(reference.features) : reference.landmarks;
+    return compareLandmarks(queryLandmarks, referenceLandmarks, coarseLandmarkKey);
+  }
+
+  return compareLandmarks(query.landmarks, reference.landmarks);
+}
+
+/**
+ * Legacy triples are compared at absolute times, so there is no offset to report.
+ */
+function compareLegacyFeatures(
+  features1: AudioFeatures,
+  features2: AudioFeatures
+): FingerprintComparison {
+  const total = Math.max(features1.peaks.length, features2.peaks.length);
+  if (total === 0) {
+    return {
+      similarity: 0,
+      offsetSeconds: 0,
+      alignedHashCount: 0,
+      hashMatchCount: null,
+      alignedQuerySpan: null,
+    };
+  }
 
   let matches = 0;
-  let total = Math.max(features1.length, features2.length);
 
   // Compare features with a tolerance for slight variations
-  for (const feature1 of features1) {
-    const [peak1, freq1, time1] = feature1;
-    if (peak1 === undefined || freq1 === undefined || time1 === undefined) continue;
+  features1.peaks.forEach((peak1, i) => {
+    const freq1 = features1.frequencies[i];
+    const time1 = features1.timestamps[i];
+    if (freq1 === undefined || time1 === undefined) return;
 
-    for (const feature2 of features2) {
-      const [peak2, freq2, time2] = feature2;
-      if (peak2 === undefined || freq2 === undefined || time2 === undefined) continue;
+    const matched = features2.peaks.some((peak2, j) => {
+      const freq2 = features2.frequencies[j];
+      const time2 = features2.timestamps[j];
+      if (freq2 === undefined || time2 === undefined) return false;
 
       // Calculate similarity score for this feature pair
       const peakSimilarity = 1 - Math.abs(peak1 - peak2);
@@ -217,12 +717,18 @@ export function calculateSimilarity(fingerprint1: string, fingerprint2: string):
       // Combined similarity score
       const similarity = (peakSimilarity + freqSimilarity + timeSimilarity) / 3;
 
-      if (similarity > 0.7) { // Threshold for considering features as matching
-        matches++;
-        break;
-      }
-    }
-  }
+      // Threshold for considering features as matching
+      return similarity > 0.7;
+    });
 
-  return matches / total;
-} 
\ No newline at end of file
+    if (matched) matches++;
+  });
+
+  return {
+    similarity: matches / total,
+    offsetSeconds: 0,
+    alignedHashCount: matches,
+    hashMatchCount: null,
+    alignedQuerySpan: null,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * How a multichannel recording is turned into the signal(s) that get fingerprinted.
+ *
+ * - `mono`: average of all channels
+ * - `mid-side`: the mid (L+R) and side (L-R) signals of the first two channels, so material that
+ *   is panned or phase-inverted between channels still leaves landmarks
+ * - `channel`: a single channel
+ * - `per-channel`: every channel on its own
+ *
+ * Strategies that yield several signals produce one fingerprint holding the landmarks of all of
+ * them.
+ */
+export type ChannelStrategy =
+  | { type: "mono" }
+  | { type: "mid-side" }
+  | { type: "channel"; channel: number }
+  | { type: "per-channel" };
+
+export const DEFAULT_CHANNEL_STRATEGY: ChannelStrategy = { type: "mono" };
+
+export const CHANNEL_STRATEGY_LABELS: Record<ChannelStrategy["type"], string> = {
+  mono: "Mono sum",
+  "mid-side": "Mid/side",
+  channel: "Single channel",
+  "per-channel": "Per channel",
+};
+
+/**
+ * Strategy every identification query is fingerprinted with. The mono sum is what every stored
+ * strategy has in common: it equals the mid signal of mid/side references and, for sound that
+ * reaches both channels, is what per-channel and single-channel references contain. Multichannel
+ * queries are also fingerprinted with the other strategies in the library (see
+ * `queryChannelStrategies`), so references are compared with a query made the way they were.
+ */
+export const IDENTIFY_CHANNEL_STRATEGY: ChannelStrategy = { type: "mono" };
+
+/**
+ * The strategies, besides `IDENTIFY_CHANNEL_STRATEGY`, that a query with the given number of
+ * channels is fingerprinted with, out of those the library's references were made with. For a
+ * single channel every strategy yields that channel, so there are none.
+ */
+export function queryChannelStrategies(
+  channelCount: number,
+  libraryStrategies: string[]
+): ChannelStrategy[] {
+  if (channelCount < 2) return [];
+
+  const identify = formatChannelStrategy(IDENTIFY_CHANNEL_STRATEGY);
+  return [...new Set(libraryStrategies)]
+    .filter((value) => value !== identify)
+    .flatMap((value) => parseChannelStrategy(value) ?? [])
+    .filter((strategy) => strategy.type !== "channel" || strategy.channel < channelCount);
+}
+
+/**
+ * Strategy of rows from before strategies were recorded, which were fingerprinted from the first
+ * channel only.
+ */
+export const LEGACY_CHANNEL_STRATEGY: ChannelStrategy = { type: "channel", channel: 0 };
+
+export function formatChannelStrategy(strategy: ChannelStrategy): string {
+  return strategy.type === "channel" ? `channel-${strategy.channel}` : strategy.type;
+}
+
+export function parseChannelStrategy(value: string): ChannelStrategy | null {
+  if (value === "mono" || value === "mid-side" || value === "per-channel") {
+    return { type: value };
+  }
+
+  const match = /^channel-(\d+)$/.exec(value);
+  return match?.[1] ? { type: "channel", channel: Number(match[1]) } : null;
+}
+
+function mix(channels: Float32Array[], gains: number[]): Float32Array {
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const output = new Float32Array(length);
+  channels.forEach((channel, c) => {
+    const gain = gains[c] ?? 0;
+    if (gain === 0) return;
+    for (let i = 0; i < length; i++) {
+      output[i] = output[i]! + channel[i]! * gain;
+    }
+  });
+  return output;
+}
+
+/**
+ * Applies a channel strategy, returning the signals to extract features from.
+ */
+export function prepareChannels(
+  channels: Float32Array[],
+  strategy: ChannelStrategy
+): Float32Array[] {
+  const [first, second] = channels;
+  if (!first) throw new Error("Audio has no channels");
+
+  switch (strategy.type) {
+    case "mono":
+      if (channels.length === 1) return [first];
+      return [mix(channels, channels.map(() => 1 / channels.length))];
+    case "mid-side":
+      // Mono sources have no side signal; fall back to the channel itself
+      if (!second) return [first];
+      return [mix([first, second], [0.5, 0.5]), mix([first, second], [0.5, -0.5])];
+    case "channel": {
+      const channel = channels[strategy.channel];
+      if (!channel) {
+        throw new Error(
+          `Channel ${strategy.channel + 1} requested but the audio has ${channels.length}`
+        );
+      }
+      return [channel];
+    }
+    case "per-channel":
+      return channels;
+  }
+}
+
+export function getAudioBufferChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+    audioBuffer.getChannelData(channel)
+  );
+}
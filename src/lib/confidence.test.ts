@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createChanceBaseline,
+  estimateFalsePositiveRate,
+  overdispersedTail,
+  type MatchStatistics,
+} from "~/lib/confidence";
+import { createRandom, type RandomSource } from "~/lib/distortions";
+
+// Best cluster sizes of ten unrelated references for one query
+const CHANCE_COUNTS = [29, 11, 15, 15, 18, 26, 15, 29, 15, 24];
+
+function statistics(alignedHashCount: number): MatchStatistics {
+  return {
+    alignedHashCount,
+    hashMatchCount: alignedHashCount * 8,
+    queryDuration: 5,
+    referenceDuration: 10,
+  };
+}
+
+function poissonSample(rate: number, random: RandomSource): number {
+  const limit = Math.exp(-rate);
+  let count = 0;
+  for (let product = random(); product > limit; product *= random()) count++;
+  return count;
+}
+
+/**
+ * A chance cluster size the way repeated hashes produce them: a few runs lining up at once, each
+ * several hashes long.
+ */
+function clumpedCount(random: RandomSource): number {
+  let count = 0;
+  for (let run = poissonSample(4, random); run > 0; run--) {
+    count += 1 + Math.floor(Math.log(random()) / Math.log(2 / 3));
+  }
+  return count;
+}
+
+describe("overdispersedTail", () => {
+  it("never increases with the count", () => {
+    const cases = [
+      [16.142857142857142, 16.142857142857185],
+      [16, 16],
+      [16, 16.0001],
+      [16, 40],
+      [3, 300],
+    ] as const;
+    for (const [mean, variance] of cases) {
+      let previous = 1;
+      for (let k = 0; k <= 200; k++) {
+        const tail = overdispersedTail(mean, variance, k);
+        expect(tail).toBeLessThanOrEqual(previous);
+        expect(tail).toBeGreaterThanOrEqual(0);
+        previous = tail;
+      }
+    }
+  });
+
+  it("treats a variance a rounding error above the mean as Poisson", () => {
+    const mean = 16.142857142857142;
+    const variance = 16.142857142857185;
+    expect(overdispersedTail(mean, variance, 24)).toBeCloseTo(0.04, 2);
+    expect(overdispersedTail(mean, variance, 26)).toBeCloseTo(0.014, 3);
+    expect(overdispersedTail(mean, variance, 30)).toBeGreaterThan(0.001);
+  });
+
+  it("converges to Poisson as the dispersion vanishes", () => {
+    const poisson = overdispersedTail(16, 16, 25);
+    expect(overdispersedTail(16, 16 * (1 + 1e-5), 25)).toBeCloseTo(poisson, 5);
+    expect(overdispersedTail(16, 16.5, 25)).toBeGreaterThan(poisson);
+  });
+});
+
+describe("createChanceBaseline", () => {
+  it("keeps ordinary chance counts in the sample", () => {
+    expect(createChanceBaseline(CHANCE_COUNTS.length, CHANCE_COUNTS).outliers).toEqual([]);
+  });
+
+  it("leaves out copies of the query's sound", () => {
+    const baseline = createChanceBaseline(12, [...CHANCE_COUNTS, 400, 350]);
+    expect(baseline.outliers).toEqual([400, 350]);
+  });
+});
+
+describe("estimateFalsePositiveRate", () => {
+  it("reports weaker matches as more likely to be chance", () => {
+    const baseline = createChanceBaseline(CHANCE_COUNTS.length, CHANCE_COUNTS);
+    const rates = [24, 26, 29, 30, 60].map((count) =>
+      estimateFalsePositiveRate(statistics(count), baseline)
+    );
+    for (let i = 1; i < rates.length; i++) {
+      expect(rates[i]).toBeLessThanOrEqual(rates[i - 1]!);
+    }
+    // The largest chance counts are nowhere near a confident match
+    expect(rates[2]).toBeGreaterThan(0.01);
+  });
+
+  it("reports a strong match as unlikely to be chance", () => {
+    const counts = [...CHANCE_COUNTS, 360];
+    const baseline = createChanceBaseline(counts.length, counts);
+    expect(estimateFalsePositiveRate(statistics(360), baseline)).toBeLessThan(1e-6);
+  });
+
+  it("refuses to call anything a match in a library too small to calibrate on", () => {
+    const baseline = createChanceBaseline(4, [12, 15, 300, 14]);
+    expect(estimateFalsePositiveRate(statistics(300), baseline)).toBe(1);
+  });
+
+  it("keeps chance matches near the nominal rate", () => {
+    const random = createRandom(1);
+    const libraries = 2000;
+    let falsePositives = 0;
+    for (let i = 0; i < libraries; i++) {
+      const counts = Array.from({ length: 20 }, () => clumpedCount(random));
+      const baseline = createChanceBaseline(counts.length, counts);
+      const best = Math.max(...counts);
+      if (estimateFalsePositiveRate(statistics(best), baseline) <= 0.01) falsePositives++;
+    }
+    expect(falsePositives / libraries).toBeLessThanOrEqual(0.015);
+  });
+});
@@ -0,0 +1,229 @@
+import { OFFSET_BIN_SECONDS, OFFSET_CLUSTER_BINS } from "~/lib/audio";
+
+/**
+ * How likely it is that a match is chance rather than the same sound.
+ *
+ * Two estimates of the chance that an unrelated reference lines up at least as many hashes are
+ * combined, and the larger one is used:
+ *
+ * - Empirical: the best cluster sizes of every reference in the library, for the same query, are a
+ *   sample of what chance produces. A negative binomial fitted to them captures how much chance
+ *   alignments bunch up: a held note or a repeated rhythm repeats the same hashes, and a run of
+ *   them lines up at once. The fit is widened by how uncertain it is, since a few dozen
+ *   references say little about a tail this far out. A sound can be in the library more than once,
+ *   though, and its other copies are no sample of chance: the largest counts are left out when
+ *   they are far beyond what the rest could produce.
+ * - Analytic: stray hash matches land at random offsets, so the votes in any one offset cluster are
+ *   Poisson distributed, at a rate set by how many stray matches the reference produced and how
+ *   many offsets they could spread over. It ignores that bunching, so it is only a floor.
+ *
+ * With too few references to fit, a match can't be told from chance and is reported as certain to
+ * be one. Correcting the per-reference probability for the number of references searched gives the
+ * probability that a match this strong turns up anywhere in the library by chance.
+ */
+
+export interface MatchStatistics {
+  alignedHashCount: number;
+  /** Every hash the query shares with the reference; null if the comparison can't be modelled. */
+  hashMatchCount: number | null;
+  queryDuration: number;
+  referenceDuration: number;
+}
+
+/**
+ * Best cluster sizes of every reference a query was compared against, as a sample of chance.
+ */
+export interface ChanceBaseline {
+  /** References searched; those without a single shared hash count as zero. */
+  librarySize: number;
+  /** The largest counts, left out of the sample as other copies of the same sound. */
+  outliers: number[];
+  /** Fitted to the rest of the counts; null if too few are left to fit. */
+  sample: SampleFit | null;
+}
+
+interface SampleFit {
+  mean: number;
+  variance: number;
+}
+
+// Below this many references left in the sample the empirical estimate is too noisy to use
+const MIN_BASELINE_REFERENCES = 5;
+// Most counts that can be left out as copies of the query's sound
+const MAX_OUTLIERS = 3;
+// How often the largest chance count of a query may be mistaken for a copy and left out, which
+// makes it look stronger than it is; split between the references it could be the largest of
+const OUTLIER_FALSE_POSITIVE_RATE = 1e-3;
+// The fitted mean and variance are replaced by the upper bounds of their one-sided 95% confidence
+// intervals, so a small sample errs towards chance
+const CONFIDENCE_Z = 1.645;
+// Variances within this relative distance of the mean are Poisson; the negative binomial's shape
+// parameter grows without bound as they approach it
+const POISSON_DISPERSION_TOLERANCE = 1e-6;
+
+/**
+ * Every reference is scored against the same fit, so a stronger match is never reported as more
+ * likely to be chance than a weaker one.
+ */
+export function createChanceBaseline(
+  librarySize: number,
+  alignedHashCounts: number[]
+): ChanceBaseline {
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (const count of alignedHashCounts) {
+    sum += count;
+    sumOfSquares += count * count;
+  }
+  const totals = { size: Math.max(librarySize, alignedHashCounts.length), sum, sumOfSquares };
+
+  // Test the largest k counts together, from the most down, so that one copy can't mask another
+  // by inflating the spread of the rest
+  const outlierProbability = OUTLIER_FALSE_POSITIVE_RATE / totals.size;
+  const largest = [...alignedHashCounts].sort((a, b) => b - a).slice(0, MAX_OUTLIERS);
+  for (let k = largest.length; k > 0; k--) {
+    const outliers = largest.slice(0, k);
+    const sample = fitSample(totals, outliers);
+    if (
+      sample &&
+      overdispersedTail(sample.mean, sample.variance, outliers[k - 1]!) < outlierProbability
+    ) {
+      return { librarySize: totals.size, outliers, sample };
+    }
+  }
+  return { librarySize: totals.size, outliers: [], sample: fitSample(totals, []) };
+}
+
+/**
+ * Mean and variance of the counts left after removing `excluded`, which must be among them, or
+ * null if too few are left. Both are upper confidence bounds rather than the sample's own.
+ */
+function fitSample(
+  totals: { size: number; sum: number; sumOfSquares: number },
+  excluded: number[]
+): SampleFit | null {
+  const size = totals.size - excluded.length;
+  if (size < MIN_BASELINE_REFERENCES) return null;
+
+  let sum = totals.sum;
+  let sumOfSquares = totals.sumOfSquares;
+  for (const count of excluded) {
+    sum -= count;
+    sumOfSquares -= count * count;
+  }
+  const mean = sum / size;
+  const variance = Math.max(0, ((sumOfSquares / size - mean * mean) * size) / (size - 1));
+
+  // The mean's bound comes from its standard error, the variance's from the Wilson-Hilferty
+  // approximation of the chi-squared quantile
+  const degrees = size - 1;
+  const spread = 2 / (9 * degrees);
+  const chiSquared = degrees * Math.pow(1 - spread - CONFIDENCE_Z * Math.sqrt(spread), 3);
+  return {
+    mean: mean + CONFIDENCE_Z * Math.sqrt(variance / size),
+    variance: chiSquared > 0 ? (variance * degrees) / chiSquared : Infinity,
+  };
+}
+
+// Lanczos approximation of ln Γ(x), for x > 0
+function logGamma(x: number): number {
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let series = 0.99999999999980993;
+  coefficients.forEach((coefficient, i) => {
+    series += coefficient / (shifted + i + 1);
+  });
+  const t = shifted + coefficients.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(series);
+}
+
+/**
+ * Sums a distribution's tail from k upwards in log space, so tiny tails don't underflow to zero
+ * before they are added up. `logRatio(i)` is ln(pmf(i + 1) / pmf(i)).
+ */
+function sumTail(logFirstTerm: number, k: number, logRatio: (i: number) => number): number {
+  let logTerm = logFirstTerm;
+  let tail = 0;
+  for (let i = k; i < k + 10000; i++) {
+    const term = Math.exp(logTerm);
+    tail += term;
+    if (term < tail * 1e-12) break;
+    logTerm += logRatio(i);
+  }
+  return Math.min(1, tail);
+}
+
+/** P(X >= k) for X ~ Poisson(rate). */
+function poissonTail(rate: number, k: number): number {
+  if (k <= 0) return 1;
+  if (rate <= 0) return 0;
+  const logRate = Math.log(rate);
+  return sumTail(-rate + k * logRate - logGamma(k + 1), k, (i) => logRate - Math.log(i + 1));
+}
+
+/**
+ * P(X >= k) for a negative binomial with the given mean and variance, falling back to Poisson when
+ * the sample isn't overdispersed. An infinite variance says nothing is known, so every k is likely.
+ */
+export function overdispersedTail(mean: number, variance: number, k: number): number {
+  if (k <= 0 || variance === Infinity) return 1;
+  if (variance <= mean * (1 + POISSON_DISPERSION_TOLERANCE)) return poissonTail(mean, k);
+
+  const successes = (mean * mean) / (variance - mean);
+  // 1 - p, taken straight from the moments so it keeps its precision when p is close to 1
+  const failure = (variance - mean) / variance;
+  const logFailure = Math.log(failure);
+  const logFirstTerm =
+    logGamma(k + successes) -
+    logGamma(k + 1) -
+    logGamma(successes) +
+    successes * Math.log1p(-failure) +
+    k * logFailure;
+  return sumTail(logFirstTerm, k, (i) => Math.log(i + successes) - Math.log(i + 1) + logFailure);
+}
+
+/** 1 - (1 - p)^n, without losing precision when p is tiny. */
+function probabilityOfAny(p: number, n: number): number {
+  if (p >= 1) return 1;
+  return -Math.expm1(n * Math.log1p(-p));
+}
+
+function analyticReferenceProbability(stats: MatchStatistics, strayMatches: number): number {
+  // Offset clusters a chance alignment could have formed in: the query can start anywhere from
+  // just before the reference to its end
+  const offsetBins = Math.max(
+    1,
+    Math.ceil((stats.queryDuration + stats.referenceDuration) / OFFSET_BIN_SECONDS)
+  );
+  // One extra vote keeps a reference with no stray matches from looking infinitely unlikely
+  const clusterRate = ((strayMatches + 1) * OFFSET_CLUSTER_BINS) / offsetBins;
+  return probabilityOfAny(poissonTail(clusterRate, stats.alignedHashCount), offsetBins);
+}
+
+/**
+ * Probability that a library of this size yields a match at least this strong by chance. Lower is
+ * more certain; legacy comparisons, which can't be modelled, are reported as 1.
+ */
+export function estimateFalsePositiveRate(
+  stats: MatchStatistics,
+  baseline: ChanceBaseline
+): number {
+  if (stats.hashMatchCount === null || stats.alignedHashCount === 0) return 1;
+
+  const { sample } = baseline;
+  if (!sample) return 1;
+
+  const strayMatches = Math.max(0, stats.hashMatchCount - stats.alignedHashCount);
+  const referenceProbability = Math.max(
+    analyticReferenceProbability(stats, strayMatches),
+    overdispersedTail(sample.mean, sample.variance, stats.alignedHashCount)
+  );
+  return probabilityOfAny(referenceProbability, Math.max(1, baseline.librarySize));
+}
@@ -0,0 +1,173 @@
+import { resample } from "~/lib/resample";
+
+/**
+ * Controlled degradations of a mono signal, for measuring how well identification survives the
+ * ways real queries differ from the reference.
+ *
+ * - `noise`: white noise at a signal-to-noise ratio in dB
+ * - `gain`: level change in dB, clipped to [-1, 1] like a real recording would be
+ * - `crop`: keep only the first `seconds` of the signal
+ * - `shift`: delay the signal by `seconds` of silence, keeping its length
+ * - `lowpass`: second-order Butterworth low-pass at `frequency` Hz
+ * - `speed`: play back `factor` times faster, changing pitch and tempo together like a turntable
+ * - `reverb`: Schroeder reverberator with a decay time (RT60) in seconds, mixed in at `mix`
+ */
+export type Distortion =
+  | { type: "noise"; snrDb: number }
+  | { type: "gain"; db: number }
+  | { type: "crop"; seconds: number }
+  | { type: "shift"; seconds: number }
+  | { type: "lowpass"; frequency: number }
+  | { type: "speed"; factor: number }
+  | { type: "reverb"; decaySeconds: number; mix: number };
+
+/** Deterministic uniform random numbers in [0, 1), so benchmark runs are reproducible. */
+export type RandomSource = () => number;
+
+// Comb filter delays of the classic Schroeder reverberator, in seconds; mutually prime in samples
+const COMB_DELAYS = [0.0297, 0.0371, 0.0411, 0.0437];
+const ALLPASS_DELAYS = [0.005, 0.0017];
+const ALLPASS_GAIN = 0.7;
+
+/** Mulberry32: small, fast and good enough for noise and test data. */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function describeDistortion(distortion: Distortion): string {
+  switch (distortion.type) {
+    case "noise":
+      return `noise ${distortion.snrDb} dB SNR`;
+    case "gain":
+      return `gain ${distortion.db > 0 ? "+" : ""}${distortion.db} dB`;
+    case "crop":
+      return `crop ${distortion.seconds}s`;
+    case "shift":
+      return `shift ${distortion.seconds}s`;
+    case "lowpass":
+      return `low-pass ${distortion.frequency} Hz`;
+    case "speed":
+      return `speed ×${distortion.factor}`;
+    case "reverb":
+      return `reverb ${distortion.decaySeconds}s`;
+  }
+}
+
+function rootMeanSquare(samples: Float32Array): number {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return samples.length === 0 ? 0 : Math.sqrt(sum / samples.length);
+}
+
+function addNoise(samples: Float32Array, snrDb: number, random: RandomSource): Float32Array {
+  // Uniform noise in [-a, a] has an RMS of a / √3
+  const amplitude = (rootMeanSquare(samples) / 10 ** (snrDb / 20)) * Math.sqrt(3);
+  return samples.map((sample) => sample + amplitude * (2 * random() - 1));
+}
+
+function lowpass(samples: Float32Array, sampleRate: number, frequency: number): Float32Array {
+  if (frequency >= sampleRate / 2) return samples.slice();
+
+  // Biquad coefficients from the Audio EQ Cookbook, with Q = 1/√2 for a Butterworth response
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const cosW0 = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cosW0) / 2 / a0;
+  const b1 = (1 - cosW0) / a0;
+  const a1 = (-2 * cosW0) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const output = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  samples.forEach((x, i) => {
+    const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    [x2, x1, y2, y1] = [x1, x, y1, y];
+  });
+  return output;
+}
+
+function changeSpeed(samples: Float32Array, sampleRate: number, factor: number): Float32Array {
+  // Resampling to fewer samples and playing them back at the original rate speeds the sound up
+  return resample(samples, sampleRate, Math.max(1, Math.round(sampleRate / factor)));
+}
+
+function reverb(
+  samples: Float32Array,
+  sampleRate: number,
+  decaySeconds: number,
+  mix: number
+): Float32Array {
+  const wet = new Float32Array(samples.length);
+
+  for (const delaySeconds of COMB_DELAYS) {
+    const delay = Math.max(1, Math.round(delaySeconds * sampleRate));
+    // Feedback that decays by 60 dB after `decaySeconds`
+    const feedback = 10 ** ((-3 * delaySeconds) / decaySeconds);
+    const buffer = new Float32Array(samples.length);
+    samples.forEach((sample, i) => {
+      const value = sample + (i >= delay ? feedback * buffer[i - delay]! : 0);
+      buffer[i] = value;
+      wet[i] = wet[i]! + value / COMB_DELAYS.length;
+    });
+  }
+
+  let diffused = wet;
+  for (const delaySeconds of ALLPASS_DELAYS) {
+    const delay = Math.max(1, Math.round(delaySeconds * sampleRate));
+    const input = diffused;
+    const output = new Float32Array(input.length);
+    input.forEach((sample, i) => {
+      const delayedInput = i >= delay ? input[i - delay]! : 0;
+      const delayedOutput = i >= delay ? output[i - delay]! : 0;
+      output[i] = -ALLPASS_GAIN * sample + delayedInput + ALLPASS_GAIN * delayedOutput;
+    });
+    diffused = output;
+  }
+
+  return samples.map((sample, i) => (1 - mix) * sample + mix * diffused[i]!);
+}
+
+/**
+ * Applies a distortion to a mono signal, returning a new buffer at the same sample rate.
+ */
+export function applyDistortion(
+  samples: Float32Array,
+  sampleRate: number,
+  distortion: Distortion,
+  random: RandomSource
+): Float32Array {
+  switch (distortion.type) {
+    case "noise":
+      return addNoise(samples, distortion.snrDb, random);
+    case "gain": {
+      const gain = 10 ** (distortion.db / 20);
+      return samples.map((sample) => Math.max(-1, Math.min(1, sample * gain)));
+    }
+    case "crop":
+      return samples.slice(0, Math.round(distortion.seconds * sampleRate));
+    case "shift": {
+      const delay = Math.min(samples.length, Math.round(distortion.seconds * sampleRate));
+      const output = new Float32Array(samples.length);
+      output.set(samples.subarray(0, samples.length - delay), delay);
+      return output;
+    }
+    case "lowpass":
+      return lowpass(samples, sampleRate, distortion.frequency);
+    case "speed":
+      return changeSpeed(samples, sampleRate, distortion.factor);
+    case "reverb":
+      return reverb(samples, sampleRate, distortion.decaySeconds, distortion.mix);
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyEffect,
+  applyEffects,
+  DEFAULT_EFFECTS,
+  formatEffectChain,
+  parseEffectChain,
+  type EffectChain,
+} from "~/lib/effects";
+
+const SAMPLE_RATE = 8000;
+
+function sine(frequency: number, seconds: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+}
+
+function peak(samples: Float32Array): number {
+  return samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+// Frequency of a steady tone from its rising zero crossings, away from the edges
+function measureFrequency(samples: Float32Array): number {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let crossings = 0;
+  for (let i = start + 1; i < end; i++) {
+    if (samples[i - 1]! < 0 && samples[i]! >= 0) crossings++;
+  }
+  return (crossings * SAMPLE_RATE) / (end - start);
+}
+
+describe("applyEffect", () => {
+  it("changes the level by the gain in dB", () => {
+    const [louder] = applyEffect([sine(440, 0.1)], SAMPLE_RATE, { type: "gain", gainDb: 6 });
+    expect(peak(louder!)).toBeCloseTo(0.5 * 10 ** (6 / 20), 2);
+  });
+
+  it("normalizes the loudest channel to the target peak", () => {
+    const [quiet, loud] = applyEffect([sine(440, 0.1, 0.1), sine(440, 0.1, 0.4)], SAMPLE_RATE, {
+      type: "normalize",
+      peakDb: -6,
+    });
+    expect(peak(loud!)).toBeCloseTo(10 ** (-6 / 20), 2);
+    expect(peak(quiet!)).toBeCloseTo(10 ** (-6 / 20) / 4, 2);
+  });
+
+  it("filters out what the high-pass and low-pass cut", () => {
+    const low = sine(50, 1);
+    const high = sine(3000, 1);
+    const highpass = { type: "highpass", frequency: 1000, q: Math.SQRT1_2 } as const;
+    const lowpass = { type: "lowpass", frequency: 1000, q: Math.SQRT1_2 } as const;
+
+    expect(peak(applyEffect([low], SAMPLE_RATE, highpass)[0]!.subarray(4000))).toBeLessThan(0.01);
+    expect(peak(applyEffect([high], SAMPLE_RATE, highpass)[0]!.subarray(4000))).toBeGreaterThan(
+      0.45
+    );
+    expect(peak(applyEffect([high], SAMPLE_RATE, lowpass)[0]!.subarray(4000))).toBeLessThan(0.1);
+  });
+
+  it("cuts the trimmed seconds from both ends", () => {
+    const [trimmed] = applyEffect([sine(440, 1)], SAMPLE_RATE, {
+      type: "trim",
+      cutStartSeconds: 0.25,
+      cutEndSeconds: 0.5,
+    });
+    expect(trimmed!.length).toBe(SAMPLE_RATE / 4);
+  });
+
+  it("fades both ends to silence", () => {
+    const [faded] = applyEffect([Float32Array.from({ length: 800 }, () => 1)], SAMPLE_RATE, {
+      type: "fade",
+      fadeInSeconds: 0.01,
+      fadeOutSeconds: 0.01,
+    });
+    expect(faded![0]).toBe(0);
+    expect(faded![799]).toBe(0);
+    expect(faded![400]).toBe(1);
+  });
+
+  it("time-stretches without changing pitch", () => {
+    const tone = sine(440, 1);
+    const [faster] = applyEffect([tone], SAMPLE_RATE, { type: "time-stretch", tempoFactor: 2 });
+    const [slower] = applyEffect([tone], SAMPLE_RATE, { type: "time-stretch", tempoFactor: 0.5 });
+
+    expect(faster!.length).toBe(SAMPLE_RATE / 2);
+    expect(slower!.length).toBe(SAMPLE_RATE * 2);
+    expect(measureFrequency(faster!)).toBeCloseTo(440, -1);
+    expect(measureFrequency(slower!)).toBeCloseTo(440, -1);
+  });
+
+  it("copies the audio unchanged when the tempo stays the same", () => {
+    const tone = sine(440, 0.5);
+    const [stretched] = applyEffect([tone], SAMPLE_RATE, DEFAULT_EFFECTS["time-stretch"]);
+    expect(stretched).not.toBe(tone);
+    expect(stretched).toEqual(tone);
+  });
+});
+
+describe("applyEffects", () => {
+  it("returns the channels themselves for an empty chain", () => {
+    const channels = [sine(440, 0.1)];
+    expect(applyEffects(channels, SAMPLE_RATE, [])).toBe(channels);
+  });
+
+  it("runs the effects in order", () => {
+    const ramp = Float32Array.from({ length: 8 }, (_, i) => i / 8);
+    const [processed] = applyEffects([ramp], 8, [
+      { type: "trim", cutStartSeconds: 0.25, cutEndSeconds: 0 },
+      { type: "reverse" },
+    ]);
+    expect(Array.from(processed!)).toEqual([7, 6, 5, 4, 3, 2].map((i) => i / 8));
+  });
+});
+
+describe("parseEffectChain", () => {
+  it("reads back a formatted chain", () => {
+    const chain: EffectChain = [
+      DEFAULT_EFFECTS.highpass,
+      { type: "gain", gainDb: -3 },
+      { type: "time-stretch", tempoFactor: 1.5 },
+    ];
+    expect(parseEffectChain(formatEffectChain(chain))).toEqual(chain);
+  });
+
+  it("rejects unknown effects and parameters out of range", () => {
+    expect(parseEffectChain('[{"type":"chorus"}]')).toBeNull();
+    expect(parseEffectChain('[{"type":"gain","gainDb":100}]')).toBeNull();
+    expect(parseEffectChain('[{"type":"gain","gainDb":0,"extra":1}]')).toBeNull();
+    expect(parseEffectChain("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Offline processing applied to a recording before it is fingerprinted and saved. A chain of
+ * effects runs in order on every channel.
+ *
+ * - `gain`: level change in dB
+ * - `normalize`: scale so the loudest sample of any channel peaks at `peakDb` dBFS
+ * - `eq`: peaking biquad boosting or cutting `gainDb` around `frequency` Hz, `q` wide
+ * - `highpass` / `lowpass`: second-order biquad filters at `frequency` Hz with resonance `q`
+ * - `reverse`: play the recording backwards
+ * - `fade`: linear fade in over the first `fadeInSeconds` and out over the last `fadeOutSeconds`
+ * - `trim`: cut `cutStartSeconds` from the start and `cutEndSeconds` from the end
+ * - `time-stretch`: play `tempoFactor` times faster without changing pitch (WSOLA)
+ */
+export type Effect =
+  | { type: "gain"; gainDb: number }
+  | { type: "normalize"; peakDb: number }
+  | { type: "eq"; frequency: number; gainDb: number; q: number }
+  | { type: "highpass"; frequency: number; q: number }
+  | { type: "lowpass"; frequency: number; q: number }
+  | { type: "reverse" }
+  | { type: "fade"; fadeInSeconds: number; fadeOutSeconds: number }
+  | { type: "trim"; cutStartSeconds: number; cutEndSeconds: number }
+  | { type: "time-stretch"; tempoFactor: number };
+
+export type EffectType = Effect["type"];
+
+export type EffectChain = Effect[];
+
+type EffectParameters<T extends EffectType> = Omit<Extract<Effect, { type: T }>, "type">;
+
+export interface EffectParameterRange {
+  min: number;
+  max: number;
+}
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  gain: "Gain",
+  normalize: "Normalize",
+  eq: "Parametric EQ",
+  highpass: "High-pass",
+  lowpass: "Low-pass",
+  reverse: "Reverse",
+  fade: "Fade in/out",
+  trim: "Trim",
+  "time-stretch": "Time-stretch",
+};
+
+/** Valid range of every parameter of every effect; parsing rejects values outside them. */
+export const EFFECT_PARAMETER_RANGES: {
+  [T in EffectType]: Record<keyof EffectParameters<T>, EffectParameterRange>;
+} = {
+  gain: { gainDb: { min: -60, max: 24 } },
+  normalize: { peakDb: { min: -60, max: 0 } },
+  eq: {
+    frequency: { min: 20, max: 20000 },
+    gainDb: { min: -24, max: 24 },
+    q: { min: 0.1, max: 20 },
+  },
+  highpass: { frequency: { min: 20, max: 20000 }, q: { min: 0.1, max: 20 } },
+  lowpass: { frequency: { min: 20, max: 20000 }, q: { min: 0.1, max: 20 } },
+  reverse: {},
+  fade: { fadeInSeconds: { min: 0, max: 60 }, fadeOutSeconds: { min: 0, max: 60 } },
+  trim: { cutStartSeconds: { min: 0, max: 3600 }, cutEndSeconds: { min: 0, max: 3600 } },
+  "time-stretch": { tempoFactor: { min: 0.25, max: 4 } },
+};
+
+/** Parameters an effect starts with when added to a chain. */
+export const DEFAULT_EFFECTS: { [T in EffectType]: Extract<Effect, { type: T }> } = {
+  gain: { type: "gain", gainDb: 0 },
+  normalize: { type: "normalize", peakDb: -1 },
+  eq: { type: "eq", frequency: 1000, gainDb: 0, q: 1 },
+  highpass: { type: "highpass", frequency: 80, q: Math.SQRT1_2 },
+  lowpass: { type: "lowpass", frequency: 8000, q: Math.SQRT1_2 },
+  reverse: { type: "reverse" },
+  fade: { type: "fade", fadeInSeconds: 0.1, fadeOutSeconds: 0.1 },
+  trim: { type: "trim", cutStartSeconds: 0, cutEndSeconds: 0 },
+  "time-stretch": { type: "time-stretch", tempoFactor: 1 },
+};
+
+// Grain length and the range searched for the best-aligned grain when time-stretching, in seconds
+const STRETCH_FRAME_SECONDS = 0.04;
+const STRETCH_TOLERANCE_SECONDS = 0.01;
+// Only every few samples of the overlap are compared when aligning grains, which is plenty to find
+// the right period and several times faster
+const STRETCH_CORRELATION_STRIDE = 4;
+
+export function isEffectType(value: string): value is EffectType {
+  return value in EFFECT_LABELS;
+}
+
+export function formatEffectChain(chain: EffectChain): string {
+  return JSON.stringify(chain);
+}
+
+function parseEffect(value: unknown): Effect | null {
+  if (typeof value !== "object" || value === null) return null;
+
+  const { type, ...parameters } = value as Record<string, unknown>;
+  if (typeof type !== "string" || !isEffectType(type)) return null;
+
+  const ranges: Record<string, EffectParameterRange> = EFFECT_PARAMETER_RANGES[type];
+  if (Object.keys(parameters).some((key) => !(key in ranges))) return null;
+
+  const effect: Record<string, unknown> = { type };
+  for (const [key, { min, max }] of Object.entries(ranges)) {
+    const parameter = parameters[key];
+    if (typeof parameter !== "number" || !(parameter >= min && parameter <= max)) return null;
+    effect[key] = parameter;
+  }
+  return effect as Effect;
+}
+
+/** Parses a chain written by `formatEffectChain`; null if it isn't a valid chain. */
+export function parseEffectChain(value: string): EffectChain | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed)) return null;
+
+  const chain = parsed.map(parseEffect);
+  return chain.every((effect) => effect !== null) ? chain : null;
+}
+
+type BiquadType = "peaking" | "highpass" | "lowpass";
+
+/**
+ * Runs a biquad from the Audio EQ Cookbook over a signal. Frequencies at or above Nyquist are
+ * pulled just below it.
+ */
+function biquad(
+  samples: Float32Array,
+  sampleRate: number,
+  type: BiquadType,
+  frequency: number,
+  q: number,
+  gainDb = 0
+): Float32Array {
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.49)) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a = 10 ** (gainDb / 40);
+
+  let [b0, b1, b2, a0, a1, a2] = [1, 0, 0, 1, 0, 0];
+  switch (type) {
+    case "peaking":
+      [b0, b1, b2] = [1 + alpha * a, -2 * cosW0, 1 - alpha * a];
+      [a0, a1, a2] = [1 + alpha / a, -2 * cosW0, 1 - alpha / a];
+      break;
+    case "highpass":
+      [b0, b1, b2] = [(1 + cosW0) / 2, -(1 + cosW0), (1 + cosW0) / 2];
+      [a0, a1, a2] = [1 + alpha, -2 * cosW0, 1 - alpha];
+      break;
+    case "lowpass":
+      [b0, b1, b2] = [(1 - cosW0) / 2, 1 - cosW0, (1 - cosW0) / 2];
+      [a0, a1, a2] = [1 + alpha, -2 * cosW0, 1 - alpha];
+      break;
+  }
+  [b0, b1, b2, a1, a2] = [b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0];
+
+  const output = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  samples.forEach((x, i) => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    [x2, x1, y2, y1] = [x1, x, y1, y];
+  });
+  return output;
+}
+
+function fade(
+  samples: Float32Array,
+  sampleRate: number,
+  fadeInSeconds: number,
+  fadeOutSeconds: number
+): Float32Array {
+  const fadeIn = Math.round(fadeInSeconds * sampleRate);
+  const fadeOut = Math.round(fadeOutSeconds * sampleRate);
+  const length = samples.length;
+
+  return samples.map((sample, i) => {
+    const inGain = i < fadeIn ? i / fadeIn : 1;
+    const outGain = length - 1 - i < fadeOut ? (length - 1 - i) / fadeOut : 1;
+    return sample * Math.min(inGain, outGain);
+  });
+}
+
+/**
+ * Time-stretches channels with WSOLA: Hann-windowed grains are overlap-added at half-grain steps,
+ * each taken from near where the tempo puts it, shifted to where it best continues the previous
+ * grain so periodic sound keeps its phase. Grains are aligned on the mix of all channels, so the
+ * channels stay in sync.
+ */
+function timeStretch(
+  channels: Float32Array[],
+  sampleRate: number,
+  tempoFactor: number
+): Float32Array[] {
+  const length = channels[0]?.length ?? 0;
+  const outputLength = Math.round(length / tempoFactor);
+  const frameSize = 2 * Math.round((STRETCH_FRAME_SECONDS * sampleRate) / 2);
+  const synthesisHop = frameSize / 2;
+  const analysisHop = synthesisHop * tempoFactor;
+  const tolerance = Math.round(STRETCH_TOLERANCE_SECONDS * sampleRate);
+
+  const mix = new Float32Array(length);
+  channels.forEach((channel) => {
+    channel.forEach((sample, i) => {
+      mix[i] = mix[i]! + sample / channels.length;
+    });
+  });
+
+  const window = Float32Array.from(
+    { length: frameSize },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize)
+  );
+  const outputs = channels.map(() => new Float32Array(outputLength + frameSize));
+
+  // Where in the input the previous grain was taken from
+  let previous = 0;
+  for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+    let start = Math.round(frame * analysisHop);
+    if (frame > 0) {
+      // The grain that would seamlessly follow the previous one, which the new grain should match
+      const natural = previous + synthesisHop;
+      let bestCorrelation = -Infinity;
+      const from = Math.max(0, start - tolerance);
+      const to = Math.min(length - 1, start + tolerance);
+      for (let candidate = from; candidate <= to; candidate++) {
+        let correlation = 0;
+        for (let i = 0; i < synthesisHop; i += STRETCH_CORRELATION_STRIDE) {
+          correlation += (mix[candidate + i] ?? 0) * (mix[natural + i] ?? 0);
+        }
+        if (correlation > bestCorrelation) {
+          bestCorrelation = correlation;
+          start = candidate;
+        }
+      }
+    }
+    previous = start;
+
+    const offset = frame * synthesisHop;
+    channels.forEach((channel, c) => {
+      const output = outputs[c]!;
+      for (let i = 0; i < frameSize; i++) {
+        output[offset + i] = output[offset + i]! + (channel[start + i] ?? 0) * window[i]!;
+      }
+    });
+  }
+
+  return outputs.map((output) => output.slice(0, outputLength));
+}
+
+/**
+ * Applies one effect to every channel, returning new buffers at the same sample rate.
+ */
+export function applyEffect(
+  channels: Float32Array[],
+  sampleRate: number,
+  effect: Effect
+): Float32Array[] {
+  switch (effect.type) {
+    case "gain": {
+      const gain = 10 ** (effect.gainDb / 20);
+      return channels.map((channel) => channel.map((sample) => sample * gain));
+    }
+    case "normalize": {
+      let peak = 0;
+      for (const channel of channels) {
+        for (const sample of channel) peak = Math.max(peak, Math.abs(sample));
+      }
+      if (peak === 0) return channels.map((channel) => channel.slice());
+      const gain = 10 ** (effect.peakDb / 20) / peak;
+      return channels.map((channel) => channel.map((sample) => sample * gain));
+    }
+    case "eq":
+      return channels.map((channel) =>
+        biquad(channel, sampleRate, "peaking", effect.frequency, effect.q, effect.gainDb)
+      );
+    case "highpass":
+    case "lowpass":
+      return channels.map((channel) =>
+        biquad(channel, sampleRate, effect.type, effect.frequency, effect.q)
+      );
+    case "reverse":
+      return channels.map((channel) => channel.slice().reverse());
+    case "fade":
+      return channels.map((channel) =>
+        fade(channel, sampleRate, effect.fadeInSeconds, effect.fadeOutSeconds)
+      );
+    case "trim": {
+      const start = Math.round(effect.cutStartSeconds * sampleRate);
+      const cutEnd = Math.round(effect.cutEndSeconds * sampleRate);
+      return channels.map((channel) =>
+        channel.slice(start, Math.max(start, channel.length - cutEnd))
+      );
+    }
+    case "time-stretch":
+      // WSOLA would still search every grain only to put it back where it was
+      if (effect.tempoFactor === 1) return channels.map((channel) => channel.slice());
+      return timeStretch(channels, sampleRate, effect.tempoFactor);
+  }
+}
+
+/**
+ * Runs a chain of effects in order. An empty chain returns the channels themselves.
+ */
+export function applyEffects(
+  channels: Float32Array[],
+  sampleRate: number,
+  chain: EffectChain
+): Float32Array[] {
+  return chain.reduce((processed, effect) => applyEffect(processed, sampleRate, effect), channels);
+}
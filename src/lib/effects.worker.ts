@@ -0,0 +1,45 @@
+/**
+ * Web Worker that applies an effect chain to a recording and extracts the features of the result,
+ * which takes seconds for long recordings and would otherwise freeze the record page.
+ */
+
+import { extractChannelFeatures } from "~/lib/audio";
+import { type ChannelStrategy } from "~/lib/channels";
+import { applyEffects, type EffectChain } from "~/lib/effects";
+import { type AudioFeatures } from "~/types/audio";
+
+export interface EffectsRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  chain: EffectChain;
+  channelStrategy: ChannelStrategy;
+}
+
+export interface EffectsResult {
+  channels: Float32Array[];
+  features: AudioFeatures[];
+}
+
+export type EffectsResponse = EffectsResult | { error: string };
+
+// The DOM typings have no worker scope, but a worker's own scope posts and receives like a Worker
+const scope = self as unknown as Worker;
+
+scope.addEventListener("message", (event: MessageEvent<EffectsRequest>) => {
+  const { channels, sampleRate, chain, channelStrategy } = event.data;
+  try {
+    const processed = applyEffects(channels, sampleRate, chain);
+    if ((processed[0]?.length ?? 0) === 0) throw new Error("The effect chain leaves no audio");
+
+    const response: EffectsResponse = {
+      channels: processed,
+      features: extractChannelFeatures(processed, sampleRate, channelStrategy),
+    };
+    scope.postMessage(response, [...new Set(processed.map((channel) => channel.buffer))]);
+  } catch (error) {
+    const response: EffectsResponse = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+    scope.postMessage(response);
+  }
+});
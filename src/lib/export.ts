@@ -0,0 +1,80 @@
+import { ANALYSIS_SAMPLE_RATE, CURRENT_ALGORITHM } from "~/lib/audio";
+import { resample } from "~/lib/resample";
+import { encodeWav, type WavAudio, type WavSampleFormat } from "~/lib/wav";
+import { type AudioFeatures } from "~/types/audio";
+
+/**
+ * Audio and analysis exports, for taking recordings and library entries into other tools. Shared by
+ * the record page and the export route.
+ */
+
+export const EXPORT_SAMPLE_RATES = [8000, 16000, 22050, 44100, 48000, 88200, 96000] as const;
+
+export const WAV_FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm8: "8-bit",
+  pcm16: "16-bit",
+  pcm24: "24-bit",
+  pcm32: "32-bit",
+  float32: "32-bit float",
+};
+
+export interface WavExportOptions {
+  /** Rate to resample to; defaults to the audio's own. */
+  sampleRate?: number;
+  /** Defaults to 16-bit PCM. */
+  format?: WavSampleFormat;
+}
+
+/** The analysis behind a fingerprint, with what is needed to reproduce it. */
+export interface FeatureExport {
+  name: string;
+  duration: number;
+  sampleRate: number;
+  analysisSampleRate: number;
+  channelStrategy: string;
+  /** Serialized `EffectChain` the audio was processed with, if any. */
+  effectChain: string | null;
+  algorithmVersion: number;
+  algorithmParameters: string;
+  /** One set of features per signal the channel strategy yields. */
+  features: AudioFeatures[];
+}
+
+/**
+ * Encodes audio as a WAV file at the requested sample rate and sample format.
+ */
+export function exportWav(
+  audio: WavAudio,
+  options: WavExportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const { sampleRate = audio.sampleRate, format } = options;
+  const channels =
+    sampleRate === audio.sampleRate
+      ? audio.channels
+      : audio.channels.map((channel) => resample(channel, audio.sampleRate, sampleRate));
+
+  return encodeWav({ sampleRate, channels }, { format });
+}
+
+export function createFeatureExport(
+  analysis: Omit<FeatureExport, "analysisSampleRate" | "algorithmVersion" | "algorithmParameters">
+): FeatureExport {
+  return { ...analysis, analysisSampleRate: ANALYSIS_SAMPLE_RATE, ...CURRENT_ALGORITHM };
+}
+
+export function formatFeatureExport(analysis: FeatureExport): string {
+  return JSON.stringify(analysis, null, 2);
+}
+
+/**
+ * File name for an export of a recording: its name reduced to characters that are safe in file
+ * names everywhere, with a suffix for the variant exported.
+ */
+export function exportFileName(name: string, suffix: string | null, extension: string): string {
+  const base =
+    name
+      .trim()
+      .replace(/[^\w.-]+/g, "-")
+      .replace(/^[-.]+|-+$/g, "") || "recording";
+  return `${base}${suffix ? `-${suffix}` : ""}.${extension}`;
+}
@@ -0,0 +1,53 @@
+export const PCM_CAPTURE_PROCESSOR = "pcm-capture";
+
+// Samples collected in the worklet before they are posted to the main thread. Render quanta are
+// only 128 samples, so posting each one would flood the message port.
+const CAPTURE_BLOCK_SIZE = 4096;
+
+/**
+ * AudioWorklet processor that forwards the first input channel to the main thread as
+ * `Float32Array` blocks. Kept as source text so it can be loaded from a Blob URL without a separate
+ * build step for the worklet scope.
+ */
+const PCM_CAPTURE_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(${CAPTURE_BLOCK_SIZE});
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.block.length - this.filled);
+      this.block.set(channel.subarray(read, read + count), this.filled);
+      this.filled += count;
+      read += count;
+
+      if (this.filled === this.block.length) {
+        this.port.postMessage(this.block, [this.block.buffer]);
+        this.block = new Float32Array(${CAPTURE_BLOCK_SIZE});
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("${PCM_CAPTURE_PROCESSOR}", PcmCaptureProcessor);
+`;
+
+export async function addPcmCaptureModule(audioContext: AudioContext): Promise<void> {
+  const url = URL.createObjectURL(
+    new Blob([PCM_CAPTURE_SOURCE], { type: "application/javascript" })
+  );
+  try {
+    await audioContext.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
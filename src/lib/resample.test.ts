@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { createRandom } from "~/lib/distortions";
+import { resample, StreamingResampler } from "~/lib/resample";
+
+function noise(length: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  return Float32Array.from({ length }, () => random() * 2 - 1);
+}
+
+describe("StreamingResampler", () => {
+  it.each([
+    [48000, 44100],
+    [44100, 48000],
+    [96000, 44100],
+  ])("matches resampling the whole stream from %i Hz to %i Hz", (fromRate, toRate) => {
+    const input = noise(20000, 1);
+    const whole = resample(input, fromRate, toRate);
+
+    const resampler = new StreamingResampler(fromRate, toRate);
+    const blocks: Float32Array[] = [];
+    const blockSizes = [4096, 128, 1000, 3];
+    for (let offset = 0, i = 0; offset < input.length; i++) {
+      const size = blockSizes[i % blockSizes.length]!;
+      blocks.push(resampler.push(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+
+    const streamed = new Float32Array(blocks.reduce((length, block) => length + block.length, 0));
+    blocks.reduce((offset, block) => {
+      streamed.set(block, offset);
+      return offset + block.length;
+    }, 0);
+
+    // Everything but the last half kernel, which is waiting for more input
+    expect(streamed.length).toBeGreaterThan(whole.length - 100);
+    for (let i = 0; i < streamed.length; i++) {
+      expect(streamed[i]).toBeCloseTo(whole[i]!, 5);
+    }
+  });
+
+  it("passes audio already at the target rate through", () => {
+    const input = noise(512, 2);
+    expect(new StreamingResampler(44100, 44100).push(input)).toBe(input);
+  });
+});
@@ -0,0 +1,190 @@
+export interface ResampleOptions {
+  /** Zero crossings of the sinc kernel on each side of the centre tap. */
+  zeroCrossings?: number;
+  /** Kaiser window shape; higher values trade a wider transition band for lower ripple. */
+  kaiserBeta?: number;
+  /** Passband edge as a fraction of the lower Nyquist frequency, leaving room for the transition. */
+  rolloff?: number;
+}
+
+// Above this many phases the filter bank gets too large to precompute, so kernels are computed per
+// output sample instead
+const MAX_PRECOMPUTED_PHASES = 1024;
+
+function greatestCommonDivisor(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Zeroth-order modified Bessel function of the first kind, used by the Kaiser window
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * Input samples either side of an output sample that its kernel reaches. When downsampling, the
+ * cutoff drops below the input Nyquist to avoid aliasing, and the kernel widens so it keeps the same
+ * number of zero crossings.
+ */
+function kernelShape(fromRate: number, toRate: number, options: ResampleOptions) {
+  const { zeroCrossings = 16, rolloff = 0.95 } = options;
+  const cutoff = Math.min(1, toRate / fromRate) * rolloff;
+  return { cutoff, halfWidth: Math.ceil(zeroCrossings / cutoff) };
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Band-limited sample rate conversion with a Kaiser-windowed sinc kernel. The conversion ratio is
+ * reduced to L/M and the kernel for each of the L polyphase branches is computed once, so the cost
+ * per output sample is a single short dot product.
+ */
+export function resample(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  options: ResampleOptions = {}
+): Float32Array {
+  if (!Number.isInteger(fromRate) || !Number.isInteger(toRate) || fromRate <= 0 || toRate <= 0) {
+    throw new Error(`Sample rates must be positive integers, got ${fromRate} and ${toRate}`);
+  }
+  if (fromRate === toRate) return samples;
+
+  const { kaiserBeta = 8.6 } = options;
+
+  const divisor = greatestCommonDivisor(fromRate, toRate);
+  const upFactor = toRate / divisor;
+  const downFactor = fromRate / divisor;
+
+  const { cutoff, halfWidth } = kernelShape(fromRate, toRate, options);
+  const tapCount = 2 * halfWidth;
+  const windowNorm = besselI0(kaiserBeta);
+
+  const computeKernel = (fraction: number, kernel: Float32Array) => {
+    let sum = 0;
+    for (let tap = 0; tap < tapCount; tap++) {
+      // Distance of this input sample from the output position, in input samples
+      const distance = tap - halfWidth + 1 - fraction;
+      const ratio = distance / halfWidth;
+      const window =
+        Math.abs(ratio) >= 1 ? 0 : besselI0(kaiserBeta * Math.sqrt(1 - ratio * ratio)) / windowNorm;
+      const value = cutoff * sinc(cutoff * distance) * window;
+      kernel[tap] = value;
+      sum += value;
+    }
+    // Normalise for unity gain at DC
+    for (let tap = 0; tap < tapCount; tap++) {
+      kernel[tap] = kernel[tap]! / sum;
+    }
+    return kernel;
+  };
+
+  const bank =
+    upFactor <= MAX_PRECOMPUTED_PHASES
+      ? Array.from({ length: upFactor }, (_, phase) =>
+          computeKernel(phase / upFactor, new Float32Array(tapCount))
+        )
+      : null;
+  const scratch = new Float32Array(tapCount);
+
+  const outputLength = Math.ceil((samples.length * upFactor) / downFactor);
+  const output = new Float32Array(outputLength);
+
+  for (let n = 0; n < outputLength; n++) {
+    const position = n * downFactor;
+    const base = Math.floor(position / upFactor);
+    const phase = position - base * upFactor;
+    const kernel = bank ? bank[phase]! : computeKernel(phase / upFactor, scratch);
+
+    const first = base - halfWidth + 1;
+    let value = 0;
+    for (let tap = 0; tap < tapCount; tap++) {
+      const index = first + tap;
+      if (index >= 0 && index < samples.length) {
+        value += samples[index]! * kernel[tap]!;
+      }
+    }
+    output[n] = value;
+  }
+
+  return output;
+}
+
+/**
+ * `resample` for audio that arrives in blocks, such as from a microphone. Each output sample is
+ * produced once the input its kernel reaches has arrived, so the output is the same as resampling
+ * the whole stream at once, only delayed by half a kernel.
+ */
+export class StreamingResampler {
+  private readonly upFactor: number;
+  private readonly downFactor: number;
+  private readonly halfWidth: number;
+  // Input kept from `bufferStart` on. It always starts at a multiple of `downFactor`, where input and
+  // output samples line up, so resampling it yields output from `bufferStart * upFactor /
+  // downFactor` on.
+  private buffered = new Float32Array(0);
+  private bufferStart = 0;
+  private emitted = 0;
+
+  constructor(
+    private readonly fromRate: number,
+    private readonly toRate: number,
+    private readonly options: ResampleOptions = {}
+  ) {
+    if (!Number.isInteger(fromRate) || !Number.isInteger(toRate) || fromRate <= 0 || toRate <= 0) {
+      throw new Error(`Sample rates must be positive integers, got ${fromRate} and ${toRate}`);
+    }
+    const divisor = greatestCommonDivisor(fromRate, toRate);
+    this.upFactor = toRate / divisor;
+    this.downFactor = fromRate / divisor;
+    this.halfWidth = kernelShape(fromRate, toRate, options).halfWidth;
+  }
+
+  /** Adds a block of input and returns the output samples it completes. */
+  push(samples: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return samples;
+
+    const buffered = new Float32Array(this.buffered.length + samples.length);
+    buffered.set(this.buffered);
+    buffered.set(samples, this.buffered.length);
+    this.buffered = buffered;
+
+    // Output sample n reads input up to floor(n * downFactor / upFactor) + halfWidth
+    const inputEnd = this.bufferStart + buffered.length;
+    const ready = Math.floor(((inputEnd - this.halfWidth) * this.upFactor) / this.downFactor);
+    if (ready <= this.emitted) return new Float32Array(0);
+
+    const outputStart = (this.bufferStart / this.downFactor) * this.upFactor;
+    const output = resample(buffered, this.fromRate, this.toRate, this.options).slice(
+      this.emitted - outputStart,
+      ready - outputStart
+    );
+    this.emitted = ready;
+
+    // Keep the input the next output sample reaches back to, from the multiple of downFactor below
+    const firstNeeded =
+      Math.floor((this.emitted * this.downFactor) / this.upFactor) - this.halfWidth + 1;
+    const keepFrom = Math.max(
+      this.bufferStart,
+      Math.floor(firstNeeded / this.downFactor) * this.downFactor
+    );
+    this.buffered = buffered.slice(keepFrom - this.bufferStart);
+    this.bufferStart = keepFrom;
+
+    return output;
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  ANALYSIS_SAMPLE_RATE,
+  FFT_SIZE,
+  HOP_SIZE,
+  computeAnalysisFrames,
+  findCandidatePeaks,
+  generateLandmarks,
+  selectFeatures,
+} from "~/lib/audio";
+import { type SpectralPeak } from "~/types/audio";
+
+/**
+ * The analysis feature extraction runs on a signal, laid out for drawing: the level of every STFT
+ * bin, the candidate peaks found in each frame and the peaks selected for the fingerprint.
+ */
+
+export const SPECTROGRAM_MIN_FREQUENCY = 20;
+export const SPECTROGRAM_MAX_FREQUENCY = ANALYSIS_SAMPLE_RATE / 2;
+/** Levels are drawn from this up to 0 dBFS; anything quieter is drawn as silence. */
+export const SPECTROGRAM_FLOOR_DB = -80;
+
+export interface SpectrogramAnalysis {
+  duration: number;
+  /** Seconds between frames, which is how wide each frame is drawn. */
+  frameSeconds: number;
+  binHz: number;
+  /** Level of every bin of every frame in dBFS, clamped to `SPECTROGRAM_FLOOR_DB`. */
+  levels: Float32Array[];
+  candidates: SpectralPeak[];
+  selected: SpectralPeak[];
+  landmarkCount: number;
+}
+
+export function analyzeSpectrogram(samples: Float32Array, sampleRate: number): SpectrogramAnalysis {
+  const frames = computeAnalysisFrames(samples, sampleRate);
+  const candidates = frames.flatMap((frame) => findCandidatePeaks(frame));
+  const features = selectFeatures(candidates);
+
+  const levels = frames.map(({ magnitudes }) =>
+    magnitudes.map((magnitude) =>
+      Math.max(SPECTROGRAM_FLOOR_DB, Math.min(0, 20 * Math.log10(magnitude)))
+    )
+  );
+  const selected = features.peaks.map((amplitude, i) => ({
+    amplitude,
+    frequency: features.frequencies[i]!,
+    time: features.timestamps[i]!,
+  }));
+
+  return {
+    duration: samples.length / sampleRate,
+    frameSeconds: HOP_SIZE / ANALYSIS_SAMPLE_RATE,
+    binHz: ANALYSIS_SAMPLE_RATE / FFT_SIZE,
+    levels,
+    candidates,
+    selected,
+    landmarkCount: generateLandmarks(features).length,
+  };
+}
+
+/**
+ * Height of a frequency on the log-frequency axis, from 0 at `SPECTROGRAM_MIN_FREQUENCY` to 1 at
+ * `SPECTROGRAM_MAX_FREQUENCY`.
+ */
+export function frequencyToPosition(frequency: number): number {
+  return (
+    Math.log(Math.max(frequency, SPECTROGRAM_MIN_FREQUENCY) / SPECTROGRAM_MIN_FREQUENCY) /
+    Math.log(SPECTROGRAM_MAX_FREQUENCY / SPECTROGRAM_MIN_FREQUENCY)
+  );
+}
+
+export function positionToFrequency(position: number): number {
+  return (
+    SPECTROGRAM_MIN_FREQUENCY *
+    Math.pow(SPECTROGRAM_MAX_FREQUENCY / SPECTROGRAM_MIN_FREQUENCY, position)
+  );
+}
@@ -0,0 +1,162 @@
+export type WindowType = "hann" | "hamming" | "blackman" | "rectangular";
+
+export interface StftOptions {
+  fftSize: number;
+  /** Samples between the starts of consecutive frames. Defaults to half the FFT size. */
+  hopSize?: number;
+  window?: WindowType;
+}
+
+export interface StftFrame {
+  /** Start of the frame in seconds. */
+  time: number;
+  /**
+   * Linear magnitude per bin, from DC up to (but not including) Nyquist. Scaled so that a
+   * full-scale sine wave reads close to 1.0 regardless of the FFT size or window.
+   */
+  magnitudes: Float32Array;
+}
+
+const windowCache = new Map<string, Float32Array>();
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const cacheKey = `${type}:${size}`;
+  const cached = windowCache.get(cacheKey);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  for (let n = 0; n < size; n++) {
+    const phase = (2 * Math.PI * n) / size;
+    switch (type) {
+      case "hann":
+        window[n] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case "hamming":
+        window[n] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case "blackman":
+        window[n] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      case "rectangular":
+        window[n] = 1;
+        break;
+    }
+  }
+
+  windowCache.set(cacheKey, window);
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `real` and `imag` must have the same power-of-two length.
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  if (imag.length !== n) {
+    throw new Error("FFT real and imaginary parts must have the same length");
+  }
+  if (!isPowerOfTwo(n)) {
+    throw new Error(`FFT size must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      const tr = real[i]!;
+      real[i] = real[j]!;
+      real[j] = tr;
+      const ti = imag[i]!;
+      imag[i] = imag[j]!;
+      imag[j] = ti;
+    }
+  }
+
+  // Butterflies
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < half; k++) {
+        const even = start + k;
+        const odd = even + half;
+        const oddReal = real[odd]! * wReal - imag[odd]! * wImag;
+        const oddImag = real[odd]! * wImag + imag[odd]! * wReal;
+
+        real[odd] = real[even]! - oddReal;
+        imag[odd] = imag[even]! - oddImag;
+        real[even] = real[even]! + oddReal;
+        imag[even] = imag[even]! + oddImag;
+
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+export function binFrequency(bin: number, sampleRate: number, fftSize: number): number {
+  return (bin * sampleRate) / fftSize;
+}
+
+/**
+ * Short-time Fourier transform over a mono signal. The last frame is zero-padded, so every sample
+ * is covered by at least one frame. Pure TypeScript, so it gives identical results in the browser,
+ * in workers and in Node.
+ */
+export function stft(
+  samples: Float32Array,
+  sampleRate: number,
+  options: StftOptions
+): StftFrame[] {
+  const { fftSize, hopSize = fftSize / 2, window: windowType = "hann" } = options;
+
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`FFT size must be a power of two, got ${fftSize}`);
+  }
+  if (!Number.isInteger(hopSize) || hopSize <= 0) {
+    throw new Error(`Hop size must be a positive integer, got ${hopSize}`);
+  }
+
+  const window = createWindow(windowType, fftSize);
+  const windowSum = window.reduce((sum, value) => sum + value, 0);
+  const scale = 2 / windowSum;
+  const binCount = fftSize / 2;
+
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const frames: StftFrame[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += hopSize) {
+    for (let i = 0; i < fftSize; i++) {
+      const sample = offset + i < samples.length ? samples[offset + i]! : 0;
+      real[i] = sample * window[i]!;
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+
+    const magnitudes = new Float32Array(binCount);
+    for (let bin = 0; bin < binCount; bin++) {
+      magnitudes[bin] = Math.hypot(real[bin]!, imag[bin]!) * scale;
+    }
+
+    frames.push({ time: offset / sampleRate, magnitudes });
+  }
+
+  return frames;
+}
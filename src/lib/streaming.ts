@@ -0,0 +1,83 @@
+import {
+  ANALYSIS_SAMPLE_RATE,
+  FFT_SIZE,
+  findCandidatePeaks,
+  HOP_SIZE,
+  selectFeatures,
+} from "~/lib/audio";
+import { StreamingResampler } from "~/lib/resample";
+import { stft } from "~/lib/stft";
+import { type AudioFeatures, type SpectralPeak } from "~/types/audio";
+
+/**
+ * Extracts features from audio as it arrives. Each STFT frame is analysed once, as soon as enough
+ * samples are buffered, and only the candidate peaks of the most recent `windowSeconds` are kept,
+ * so asking for the features of the sliding window is cheap however long the stream runs.
+ *
+ * Samples at any other rate than `ANALYSIS_SAMPLE_RATE` are resampled to it as they arrive.
+ */
+export class StreamingFeatureExtractor {
+  private pending = new Float32Array(0);
+  private framesAnalyzed = 0;
+  private framePeaks: { time: number; peaks: SpectralPeak[] }[] = [];
+
+  private readonly resampler: StreamingResampler;
+
+  constructor(
+    private readonly windowSeconds: number,
+    sampleRate: number = ANALYSIS_SAMPLE_RATE
+  ) {
+    this.resampler = new StreamingResampler(sampleRate, ANALYSIS_SAMPLE_RATE);
+  }
+
+  /** Seconds of audio analysed so far. */
+  get duration(): number {
+    return (this.framesAnalyzed * HOP_SIZE) / ANALYSIS_SAMPLE_RATE;
+  }
+
+  push(input: Float32Array): void {
+    const samples = this.resampler.push(input);
+    const buffered = new Float32Array(this.pending.length + samples.length);
+    buffered.set(this.pending);
+    buffered.set(samples, this.pending.length);
+
+    let offset = 0;
+    while (offset + FFT_SIZE <= buffered.length) {
+      const time = (this.framesAnalyzed * HOP_SIZE) / ANALYSIS_SAMPLE_RATE;
+      const [frame] = stft(buffered.subarray(offset, offset + FFT_SIZE), ANALYSIS_SAMPLE_RATE, {
+        fftSize: FFT_SIZE,
+        hopSize: FFT_SIZE,
+      });
+      if (frame) {
+        this.framePeaks.push({ time, peaks: findCandidatePeaks({ ...frame, time }) });
+      }
+
+      this.framesAnalyzed++;
+      offset += HOP_SIZE;
+    }
+
+    this.pending = buffered.slice(offset);
+
+    const windowStart = this.duration - this.windowSeconds;
+    const firstKept = this.framePeaks.findIndex((frame) => frame.time >= windowStart);
+    this.framePeaks = firstKept === -1 ? [] : this.framePeaks.slice(firstKept);
+  }
+
+  /**
+   * Features of the current window, with timestamps relative to the start of the window.
+   */
+  getFeatures(): AudioFeatures {
+    const windowStart = this.framePeaks[0]?.time ?? 0;
+    return selectFeatures(
+      this.framePeaks.flatMap((frame) =>
+        frame.peaks.map((peak) => ({ ...peak, time: peak.time - windowStart }))
+      )
+    );
+  }
+
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.framesAnalyzed = 0;
+    this.framePeaks = [];
+  }
+}
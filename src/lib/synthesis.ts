@@ -0,0 +1,237 @@
+import { ANALYSIS_SAMPLE_RATE, FFT_SIZE, findCandidatePeaks, HOP_SIZE } from "~/lib/audio";
+import { type RandomSource } from "~/lib/distortions";
+import { resample } from "~/lib/resample";
+import { createWindow, fft, stft, type StftFrame } from "~/lib/stft";
+import { type SpectralPeak } from "~/types/audio";
+
+/**
+ * Additive resynthesis: rebuilds a sound from the spectral peaks feature extraction finds in each
+ * STFT frame. Peaks are joined into partials that run from frame to frame, and each partial is
+ * rendered by its own sine oscillator. What the partials leave out can be added back as noise with
+ * the spectrum of the original's residual.
+ */
+
+export interface SynthesisOptions {
+  /** Most partials sounding in any one frame; the quietest peaks are dropped. */
+  maxPartials?: number;
+  /** Level of the noise residual, from 0 (partials only) to 1 (as loud as in the original). */
+  noiseLevel?: number;
+  /** Phases of the noise residual; defaults to `Math.random`. */
+  random?: RandomSource;
+}
+
+/** A sinusoid followed across frames, with its frequency and amplitude at each frame. */
+export interface TrackedPartial {
+  /** Ordered by time, fading in from and out to zero amplitude. */
+  points: SpectralPeak[];
+}
+
+export const DEFAULT_MAX_PARTIALS = 40;
+export const DEFAULT_NOISE_LEVEL = 1;
+
+// How far a partial may glide between frames and still be the same partial: a fraction of its
+// frequency, but never less than about an FFT bin
+const MAX_FREQUENCY_RATIO = 0.03;
+const MIN_FREQUENCY_TOLERANCE = 30;
+// Bins either side of a peak that belong to it rather than to the noise residual
+const PEAK_HALF_WIDTH_BINS = 2;
+
+/**
+ * Joins the peaks of consecutive frames into partials, greedily from the loudest peak down: each
+ * peak continues the partial closest in frequency, if one is close enough, or starts a new one.
+ * Partials that find no peak in a frame end there.
+ */
+export function trackPartials(
+  frames: SpectralPeak[][],
+  frameSeconds: number,
+  maxPartials = DEFAULT_MAX_PARTIALS
+): TrackedPartial[] {
+  const finished: TrackedPartial[] = [];
+  let active: TrackedPartial[] = [];
+
+  const end = (partial: TrackedPartial) => {
+    const last = partial.points[partial.points.length - 1]!;
+    partial.points.push({ ...last, amplitude: 0, time: last.time + frameSeconds });
+    finished.push(partial);
+  };
+
+  for (const framePeaks of frames) {
+    const peaks = [...framePeaks].sort((a, b) => b.amplitude - a.amplitude).slice(0, maxPartials);
+    const unclaimed = new Set(active);
+    const continued: TrackedPartial[] = [];
+
+    for (const peak of peaks) {
+      const tolerance = Math.max(MIN_FREQUENCY_TOLERANCE, peak.frequency * MAX_FREQUENCY_RATIO);
+      let closest: TrackedPartial | undefined;
+      let closestDistance = tolerance;
+      for (const partial of unclaimed) {
+        const last = partial.points[partial.points.length - 1]!;
+        const distance = Math.abs(last.frequency - peak.frequency);
+        if (distance <= closestDistance) {
+          closest = partial;
+          closestDistance = distance;
+        }
+      }
+
+      if (closest) {
+        unclaimed.delete(closest);
+        closest.points.push(peak);
+        continued.push(closest);
+      } else {
+        const fadeIn = { ...peak, amplitude: 0, time: Math.max(0, peak.time - frameSeconds) };
+        continued.push({ points: [fadeIn, peak] });
+      }
+    }
+
+    unclaimed.forEach(end);
+    active = continued;
+  }
+
+  active.forEach(end);
+  return finished;
+}
+
+/**
+ * Renders partials with one sine oscillator each, interpolating frequency and amplitude linearly
+ * between their points. Phase is carried over from sample to sample so glides don't click.
+ */
+export function renderPartials(
+  partials: TrackedPartial[],
+  length: number,
+  sampleRate: number
+): Float32Array {
+  const output = new Float32Array(length);
+
+  for (const { points } of partials) {
+    let phase = 0;
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1]!;
+      const to = points[i]!;
+      const start = Math.round(from.time * sampleRate);
+      const stop = Math.min(length, Math.round(to.time * sampleRate));
+      const span = Math.max(1, stop - start);
+
+      for (let n = Math.max(0, start); n < stop; n++) {
+        const progress = (n - start) / span;
+        const frequency = from.frequency + (to.frequency - from.frequency) * progress;
+        const amplitude = from.amplitude + (to.amplitude - from.amplitude) * progress;
+        phase += (2 * Math.PI * frequency) / sampleRate;
+        output[n] = output[n]! + amplitude * Math.sin(phase);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Sharpens a peak found at an FFT bin by fitting a parabola through the log magnitudes around it,
+ * and moves it to the centre of its frame.
+ */
+function refinePeak(frame: StftFrame, peak: SpectralPeak): SpectralPeak {
+  const bin = Math.round((peak.frequency * FFT_SIZE) / ANALYSIS_SAMPLE_RATE);
+  const [below, at, above] = [bin - 1, bin, bin + 1].map((i) =>
+    Math.log(Math.max(frame.magnitudes[i] ?? 0, 1e-12))
+  ) as [number, number, number];
+  const curvature = below - 2 * at + above;
+  const shift = curvature === 0 ? 0 : (0.5 * (below - above)) / curvature;
+
+  return {
+    frequency: ((bin + shift) * ANALYSIS_SAMPLE_RATE) / FFT_SIZE,
+    amplitude: Math.exp(at - 0.25 * (below - above) * shift),
+    time: frame.time + FFT_SIZE / 2 / ANALYSIS_SAMPLE_RATE,
+  };
+}
+
+/**
+ * Noise with the spectrum each frame has left once its peaks are taken out: every frame's residual
+ * magnitudes get random phases, are transformed back and overlap-added under a Hann window.
+ */
+function renderResidual(
+  frames: StftFrame[],
+  framePeaks: SpectralPeak[][],
+  length: number,
+  random: RandomSource
+): Float32Array {
+  const output = new Float32Array(length);
+  const window = createWindow("hann", FFT_SIZE);
+  const windowSum = window.reduce((sum, value) => sum + value, 0);
+  const meanSquare = window.reduce((sum, value) => sum + value * value, 0) / FFT_SIZE;
+  // Undoes the STFT's magnitude scaling, and the level lost to windowing on analysis and again on
+  // overlap-adding
+  const gain = windowSum / 2 / (meanSquare * Math.sqrt(FFT_SIZE / HOP_SIZE));
+
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  frames.forEach((frame, i) => {
+    const residual = Float32Array.from(frame.magnitudes);
+    for (const peak of framePeaks[i] ?? []) {
+      const bin = Math.round((peak.frequency * FFT_SIZE) / ANALYSIS_SAMPLE_RATE);
+      residual.fill(0, Math.max(0, bin - PEAK_HALF_WIDTH_BINS), bin + PEAK_HALF_WIDTH_BINS + 1);
+    }
+
+    real.fill(0);
+    imag.fill(0);
+    for (let bin = 1; bin < residual.length; bin++) {
+      const phase = 2 * Math.PI * random();
+      real[bin] = residual[bin]! * Math.cos(phase);
+      imag[bin] = residual[bin]! * Math.sin(phase);
+      // Conjugate-symmetric, so the inverse transform is real
+      real[FFT_SIZE - bin] = real[bin]!;
+      imag[FFT_SIZE - bin] = -imag[bin]!;
+    }
+
+    // Inverse FFT of a conjugate-symmetric spectrum: the forward transform of its conjugate, over N
+    for (let bin = 0; bin < FFT_SIZE; bin++) imag[bin] = -imag[bin]!;
+    fft(real, imag);
+
+    const offset = Math.round(frame.time * ANALYSIS_SAMPLE_RATE);
+    for (let n = 0; n < FFT_SIZE && offset + n < length; n++) {
+      output[offset + n] = output[offset + n]! + (real[n]! / FFT_SIZE) * window[n]! * gain;
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Resynthesizes a mono signal from its spectral peaks, returning a new buffer at the same sample
+ * rate and length.
+ */
+export function resynthesize(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SynthesisOptions = {}
+): Float32Array {
+  const {
+    maxPartials = DEFAULT_MAX_PARTIALS,
+    noiseLevel = DEFAULT_NOISE_LEVEL,
+    random = Math.random,
+  } = options;
+
+  const analysisData = resample(samples, sampleRate, ANALYSIS_SAMPLE_RATE);
+  const frames = stft(analysisData, ANALYSIS_SAMPLE_RATE, {
+    fftSize: FFT_SIZE,
+    hopSize: HOP_SIZE,
+  });
+  const framePeaks = frames.map((frame) => findCandidatePeaks(frame));
+
+  const partials = trackPartials(
+    frames.map((frame, i) => framePeaks[i]!.map((peak) => refinePeak(frame, peak))),
+    HOP_SIZE / ANALYSIS_SAMPLE_RATE,
+    maxPartials
+  );
+  const output = renderPartials(partials, analysisData.length, ANALYSIS_SAMPLE_RATE);
+
+  if (noiseLevel > 0) {
+    const residual = renderResidual(frames, framePeaks, analysisData.length, random);
+    residual.forEach((sample, i) => {
+      output[i] = output[i]! + noiseLevel * sample;
+    });
+  }
+
+  const resynthesized = resample(output, ANALYSIS_SAMPLE_RATE, sampleRate);
+  return resynthesized.length === samples.length
+    ? resynthesized
+    : Float32Array.from({ length: samples.length }, (_, i) => resynthesized[i] ?? 0);
+}
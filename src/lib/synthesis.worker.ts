@@ -0,0 +1,37 @@
+/**
+ * Web Worker that resynthesizes a recording, which takes seconds for long recordings and would
+ * otherwise freeze the replica player's sliders.
+ */
+
+import { resynthesize } from "~/lib/synthesis";
+
+export interface SynthesisRequest {
+  samples: Float32Array;
+  sampleRate: number;
+  maxPartials: number;
+  noiseLevel: number;
+}
+
+export interface SynthesisResult {
+  samples: Float32Array;
+}
+
+export type SynthesisResponse = SynthesisResult | { error: string };
+
+// Typed as a Worker for the same reason as in effects.worker.ts
+const scope = self as unknown as Worker;
+
+scope.addEventListener("message", (event: MessageEvent<SynthesisRequest>) => {
+  const { samples, sampleRate, maxPartials, noiseLevel } = event.data;
+  try {
+    const response: SynthesisResult = {
+      samples: resynthesize(samples, sampleRate, { maxPartials, noiseLevel }),
+    };
+    scope.postMessage(response, [response.samples.buffer]);
+  } catch (error) {
+    const response: SynthesisResponse = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+    scope.postMessage(response);
+  }
+});
@@ -3,4 +3,21 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-} 
\ No newline at end of file
+} 
+export function formatTimestamp(seconds: number) {
+  const totalSeconds = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, "0")}`;
+}
+
+export function formatConfidence(falsePositiveRate: number) {
+  // Rounding would show strong matches as a flat 100%, which no match ever is
+  if (falsePositiveRate < 0.0001) return "> 99.99%";
+  return `${((1 - falsePositiveRate) * 100).toFixed(2)}%`;
+}
+
+/** Nearest-rank percentile of values sorted in ascending order. */
+export function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)] ?? null;
+}
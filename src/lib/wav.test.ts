@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import { createRandom } from "~/lib/distortions";
+import { decodeWav, encodeWav, isWav, WavError, type WavSampleFormat } from "~/lib/wav";
+
+const SAMPLE_RATE = 44100;
+
+function noise(length: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  return Float32Array.from({ length }, () => random() * 2 - 1);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+}
+
+function chunk(id: string, body: Uint8Array): Uint8Array {
+  const header = new Uint8Array(8);
+  const view = new DataView(header.buffer);
+  [...id].forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+  view.setUint32(4, body.length, true);
+  return concat(header, body, new Uint8Array(body.length % 2));
+}
+
+/** Splits an encoded file into its RIFF header and chunks, for rearranging them. */
+function splitChunks(wav: Uint8Array): { header: Uint8Array; chunks: Uint8Array[] } {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset < wav.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push(wav.subarray(offset, end));
+    offset = end;
+  }
+  return { header: wav.subarray(0, 12), chunks };
+}
+
+describe("encodeWav and decodeWav", () => {
+  it.each<[WavSampleFormat, number]>([
+    ["pcm8", 1 / 64],
+    ["pcm16", 1 / 16384],
+    ["pcm24", 1e-6],
+    ["pcm32", 1e-7],
+    ["float32", 0],
+  ])("round-trips %s audio to within its resolution", (format, tolerance) => {
+    for (const channelCount of [1, 2, 6]) {
+      const channels = Array.from({ length: channelCount }, (_, i) => noise(1001, i + 1));
+      const decoded = decodeWav(encodeWav({ sampleRate: SAMPLE_RATE, channels }, { format }));
+
+      expect(decoded.sampleRate).toBe(SAMPLE_RATE);
+      expect(decoded.channels).toHaveLength(channelCount);
+      decoded.channels.forEach((channel, i) => {
+        expect(channel).toHaveLength(1001);
+        channel.forEach((sample, j) => {
+          expect(Math.abs(sample - channels[i]![j]!)).toBeLessThanOrEqual(tolerance);
+        });
+      });
+    }
+  });
+
+  it("writes WAVE_FORMAT_EXTENSIBLE only beyond two channels or 16 bits", () => {
+    const formatTag = (wav: Uint8Array) => new DataView(wav.buffer).getUint16(20, true);
+    const mono = [noise(10, 1)];
+    const surround = Array.from({ length: 6 }, (_, i) => noise(10, i + 1));
+
+    expect(formatTag(encodeWav({ sampleRate: SAMPLE_RATE, channels: mono }))).toBe(0x0001);
+    expect(formatTag(encodeWav({ sampleRate: SAMPLE_RATE, channels: surround }))).toBe(0xfffe);
+    expect(
+      formatTag(encodeWav({ sampleRate: SAMPLE_RATE, channels: mono }, { format: "pcm24" }))
+    ).toBe(0xfffe);
+  });
+
+  it("clips PCM samples outside [-1, 1]", () => {
+    const channels = [Float32Array.from([-2, 1.5, 0.5])];
+    const decoded = decodeWav(encodeWav({ sampleRate: SAMPLE_RATE, channels }));
+    expect(decoded.channels[0]![0]).toBeCloseTo(-1, 4);
+    expect(decoded.channels[0]![1]).toBeCloseTo(1, 4);
+    expect(decoded.channels[0]![2]).toBeCloseTo(0.5, 4);
+  });
+
+  it("pads an odd-sized data chunk and skips unknown chunks", () => {
+    const samples = Float32Array.from([0.5, -0.5, 0.25]);
+    const wav = encodeWav({ sampleRate: 8000, channels: [samples] }, { format: "pcm8" });
+    expect(wav.length % 2).toBe(0);
+
+    const { header, chunks } = splitChunks(wav);
+    const withList = concat(header, chunk("LIST", new Uint8Array(5)), ...chunks);
+    const decoded = decodeWav(withList);
+    expect(decoded.sampleRate).toBe(8000);
+    decoded.channels[0]!.forEach((sample, i) => expect(sample).toBeCloseTo(samples[i]!, 1));
+  });
+
+  it("rejects channels of different lengths and invalid sample rates", () => {
+    expect(() =>
+      encodeWav({ sampleRate: SAMPLE_RATE, channels: [noise(10, 1), noise(11, 2)] })
+    ).toThrow(WavError);
+    expect(() => encodeWav({ sampleRate: 44100.5, channels: [noise(10, 1)] })).toThrow(WavError);
+    expect(() => encodeWav({ sampleRate: SAMPLE_RATE, channels: [] })).toThrow(WavError);
+  });
+});
+
+describe("decodeWav", () => {
+  const wav = encodeWav({ sampleRate: SAMPLE_RATE, channels: [noise(100, 1)] });
+
+  function errorCode(data: Uint8Array) {
+    try {
+      decodeWav(data);
+    } catch (error) {
+      if (error instanceof WavError) return error.code;
+      throw error;
+    }
+    return null;
+  }
+
+  it("reports files cut off partway as truncated", () => {
+    expect(errorCode(wav.subarray(0, 8))).toBe("truncated");
+    expect(errorCode(wav.subarray(0, wav.length - 10))).toBe("truncated");
+  });
+
+  it("reports files that are not WAV as invalid", () => {
+    expect(errorCode(new TextEncoder().encode("ID3 not a wave file"))).toBe("invalid");
+
+    const { header, chunks } = splitChunks(wav);
+    expect(errorCode(concat(header, ...chunks.reverse()))).toBe("invalid");
+  });
+});
+
+describe("isWav", () => {
+  it("recognizes the RIFF/WAVE header", () => {
+    expect(isWav(encodeWav({ sampleRate: SAMPLE_RATE, channels: [noise(10, 1)] }))).toBe(true);
+    expect(isWav(new TextEncoder().encode("OggS...."))).toBe(false);
+  });
+});
@@ -0,0 +1,297 @@
+export interface WavAudio {
+  sampleRate: number;
+  /** One buffer per channel, with samples in the range [-1, 1]. */
+  channels: Float32Array[];
+}
+
+export type WavSampleFormat = "pcm8" | "pcm16" | "pcm24" | "pcm32" | "float32";
+
+export interface WavEncodeOptions {
+  /** Defaults to 16-bit PCM. */
+  format?: WavSampleFormat;
+}
+
+export type WavErrorCode = "invalid" | "truncated" | "unsupported";
+
+export class WavError extends Error {
+  constructor(
+    message: string,
+    readonly code: WavErrorCode
+  ) {
+    super(message);
+    this.name = "WavError";
+  }
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Trailing 14 bytes shared by the KSDATAFORMAT_SUBTYPE_PCM and _IEEE_FLOAT GUIDs
+const SUBFORMAT_GUID_TAIL = [
+  0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71,
+];
+
+// Speaker masks for the usual layouts of 1 to 8 channels
+const DEFAULT_CHANNEL_MASKS = [0x4, 0x3, 0x7, 0x33, 0x37, 0x3f, 0x13f, 0x63f];
+
+const SAMPLE_FORMATS: Record<WavSampleFormat, { bitsPerSample: number; float: boolean }> = {
+  pcm8: { bitsPerSample: 8, float: false },
+  pcm16: { bitsPerSample: 16, float: false },
+  pcm24: { bitsPerSample: 24, float: false },
+  pcm32: { bitsPerSample: 32, float: false },
+  float32: { bitsPerSample: 32, float: true },
+};
+
+interface WavFormat {
+  channelCount: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  float: boolean;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function writeTag(view: DataView, offset: number, tag: string) {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, tag.charCodeAt(i));
+  }
+}
+
+export function isWav(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readTag(view, 0) === "RIFF" && readTag(view, 8) === "WAVE";
+}
+
+function parseFormatChunk(view: DataView, offset: number, size: number): WavFormat {
+  if (size < 16) {
+    throw new WavError(`WAV fmt chunk is ${size} bytes, expected at least 16`, "invalid");
+  }
+
+  let formatTag = view.getUint16(offset, true);
+  const channelCount = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const blockAlign = view.getUint16(offset + 12, true);
+  const bitsPerSample = view.getUint16(offset + 14, true);
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    if (size < 40) {
+      throw new WavError("WAVE_FORMAT_EXTENSIBLE fmt chunk is too short", "invalid");
+    }
+    // The first two bytes of the sub-format GUID hold the actual format tag
+    formatTag = view.getUint16(offset + 24, true);
+  }
+
+  if (channelCount === 0) throw new WavError("WAV file declares zero channels", "invalid");
+  if (sampleRate === 0) throw new WavError("WAV file declares a zero sample rate", "invalid");
+
+  const isPcm = formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample);
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (!isPcm && !isFloat) {
+    throw new WavError(
+      `Unsupported WAV encoding: format 0x${formatTag.toString(16)} at ${bitsPerSample} bits`,
+      "unsupported"
+    );
+  }
+
+  if (blockAlign < (channelCount * bitsPerSample) / 8) {
+    throw new WavError(`WAV block alignment ${blockAlign} is too small for its format`, "invalid");
+  }
+
+  return { channelCount, sampleRate, blockAlign, bitsPerSample, float: isFloat };
+}
+
+function readSample(view: DataView, position: number, format: WavFormat): number {
+  if (format.float) return view.getFloat32(position, true);
+
+  switch (format.bitsPerSample) {
+    case 8:
+      // 8-bit WAV is unsigned, centred on 128
+      return (view.getUint8(position) - 128) / 128;
+    case 16:
+      return view.getInt16(position, true) / 32768;
+    case 24: {
+      const value =
+        view.getUint8(position) |
+        (view.getUint8(position + 1) << 8) |
+        (view.getInt8(position + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(position, true) / 2147483648;
+  }
+}
+
+/**
+ * Parses a RIFF/WAVE file into one `Float32Array` per channel. Handles 8/16/24/32-bit PCM, 32-bit
+ * float and WAVE_FORMAT_EXTENSIBLE with any number of channels; chunks other than `fmt ` and
+ * `data` are skipped.
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): WavAudio {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.byteLength < 12) {
+    throw new WavError("File is too short to be a WAV file", "truncated");
+  }
+  if (readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    throw new WavError("Not a RIFF/WAVE file", "invalid");
+  }
+
+  let format: WavFormat | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readTag(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    const available = view.byteLength - body;
+
+    if (chunkId === "fmt ") {
+      if (chunkSize > available) throw new WavError("WAV fmt chunk is truncated", "truncated");
+      format = parseFormatChunk(view, body, chunkSize);
+    } else if (chunkId === "data") {
+      if (!format) {
+        throw new WavError("WAV data chunk appears before the fmt chunk", "invalid");
+      }
+      if (chunkSize > available) {
+        throw new WavError(
+          `WAV data chunk declares ${chunkSize} bytes but only ${available} are present`,
+          "truncated"
+        );
+      }
+
+      const bytesPerSample = format.bitsPerSample / 8;
+      const frameCount = Math.floor(chunkSize / format.blockAlign);
+      const channels = Array.from(
+        { length: format.channelCount },
+        () => new Float32Array(frameCount)
+      );
+
+      for (let frame = 0; frame < frameCount; frame++) {
+        const frameStart = body + frame * format.blockAlign;
+        for (let channel = 0; channel < format.channelCount; channel++) {
+          channels[channel]![frame] = readSample(
+            view,
+            frameStart + channel * bytesPerSample,
+            format
+          );
+        }
+      }
+
+      return { sampleRate: format.sampleRate, channels };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new WavError(
+    format ? "WAV file has no data chunk" : "WAV file has no fmt chunk",
+    offset !== view.byteLength ? "truncated" : "invalid"
+  );
+}
+
+function clamp(sample: number): number {
+  return Math.max(-1, Math.min(1, sample));
+}
+
+/**
+ * Encodes channels into a WAV file. More than two channels or more than 16 bits per sample are
+ * written as WAVE_FORMAT_EXTENSIBLE, as the format specification recommends.
+ */
+export function encodeWav(
+  audio: WavAudio,
+  options: WavEncodeOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const { bitsPerSample, float } = SAMPLE_FORMATS[options.format ?? "pcm16"];
+  const { sampleRate, channels } = audio;
+  const channelCount = channels.length;
+
+  if (channelCount === 0) throw new WavError("Cannot encode audio without channels", "invalid");
+  if (!Number.isInteger(sampleRate) || sampleRate <= 0) {
+    throw new WavError(`Cannot encode audio at sample rate ${sampleRate}`, "invalid");
+  }
+
+  const frameCount = channels[0]!.length;
+  if (channels.some((channel) => channel.length !== frameCount)) {
+    throw new WavError("All channels must have the same length", "invalid");
+  }
+
+  const extensible = channelCount > 2 || bitsPerSample > 16;
+  const bytesPerSample = bitsPerSample / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const fmtSize = extensible ? 40 : 16;
+  const headerSize = 12 + 8 + fmtSize + 8;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize + (dataSize % 2));
+  const view = new DataView(buffer);
+
+  writeTag(view, 0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeTag(view, 8, "WAVE");
+
+  writeTag(view, 12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  const formatTag = float ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  view.setUint16(20, extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  if (extensible) {
+    view.setUint16(36, 22, true); // Size of the extension
+    view.setUint16(38, bitsPerSample, true); // Valid bits per sample
+    view.setUint32(40, DEFAULT_CHANNEL_MASKS[channelCount - 1] ?? 0, true);
+    view.setUint16(44, formatTag, true);
+    SUBFORMAT_GUID_TAIL.forEach((byte, i) => view.setUint8(46 + i, byte));
+  }
+
+  const dataOffset = headerSize - 8;
+  writeTag(view, dataOffset, "data");
+  view.setUint32(dataOffset + 4, dataSize, true);
+
+  let position = headerSize;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      const sample = channel[frame]!;
+
+      if (float) {
+        view.setFloat32(position, sample, true);
+      } else if (bitsPerSample === 8) {
+        view.setUint8(position, Math.round(clamp(sample) * 127) + 128);
+      } else if (bitsPerSample === 16) {
+        view.setInt16(position, Math.round(clamp(sample) * 32767), true);
+      } else if (bitsPerSample === 24) {
+        const value = Math.round(clamp(sample) * 8388607);
+        view.setUint8(position, value & 0xff);
+        view.setUint8(position + 1, (value >> 8) & 0xff);
+        view.setInt8(position + 2, value >> 16);
+      } else {
+        view.setInt32(position, Math.round(clamp(sample) * 2147483647), true);
+      }
+
+      position += bytesPerSample;
+    }
+  }
+
+  return new Uint8Array(buffer);
+}
+
+/** `encodeWav` as a Blob, for playing or downloading in the browser. */
+export function encodeWavBlob(audio: WavAudio, options: WavEncodeOptions = {}): Blob {
+  return new Blob([encodeWav(audio, options)], { type: "audio/wav" });
+}
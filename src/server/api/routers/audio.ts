@@ -1,58 +1,209 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure } from "../trpc";
 import { audioFingerprints } from "../../db/schema";
-import { eq, and, gt } from "drizzle-orm";
-import { calculateSimilarity } from "~/lib/audio";
-import { type AudioMatch } from "~/types/audio";
+import { enrollFingerprint, getDuplicateReport } from "~/server/audio/duplicates";
+import {
+  deleteFingerprint,
+  deleteReferenceRecording,
+  getFingerprint,
+  identifyTimeline,
+  listChannelStrategies,
+  listFingerprints,
+  mergeFingerprints,
+  searchFingerprints,
+  updateFingerprint,
+} from "~/server/audio/fingerprints";
+import { getIdentificationAnalytics, identifyAndRecord } from "~/server/audio/history";
+import { countStaleFingerprints, getLatestReindexJob } from "~/server/audio/reindex";
+import { parseChannelStrategy } from "~/lib/channels";
+import { parseEffectChain } from "~/lib/effects";
+
+const nameSchema = z.string().trim().min(1).max(256);
+const descriptionSchema = z.string().trim().max(2000).nullable();
+const categorySchema = z.string().trim().min(1).max(64).nullable();
+const tagsSchema = z.array(z.string().trim().min(1).max(64)).max(32);
+// Query fingerprints made with other channel strategies, keyed by formatted strategy
+const strategyFingerprintsSchema = z.record(
+  z.string().refine((value) => parseChannelStrategy(value) !== null, "Unknown channel strategy"),
+  z.string()
+);
+const scaleSearchSchema = z.object({
+  maxPitchChange: z.number().min(0).max(0.2),
+  maxTempoChange: z.number().min(0).max(0.2),
+});
 
 export const audioRouter = createTRPCRouter({
   createFingerprint: publicProcedure
     .input(
       z.object({
-        name: z.string(),
+        name: nameSchema,
         fingerprint: z.string(),
         duration: z.number(),
+        description: descriptionSchema.optional(),
+        category: categorySchema.optional(),
+        tags: tagsSchema.optional(),
+        sourceFilename: z.string().max(1024).optional(),
+        sampleRate: z.number().int().positive().optional(),
+        channelCount: z.number().int().positive().optional(),
+        analysisSampleRate: z.number().int().positive().optional(),
+        channelStrategy: z
+          .string()
+          .refine((value) => parseChannelStrategy(value) !== null, "Unknown channel strategy")
+          .optional(),
+        effectChain: z
+          .string()
+          .max(8192)
+          .refine((value) => parseEffectChain(value) !== null, "Invalid effect chain")
+          .optional(),
+        // Left out by older clients, whose fingerprints are then treated as outdated
+        algorithmVersion: z.number().int().optional(),
+        algorithmParameters: z.string().max(4096).optional(),
+        // Nothing is saved while the sound looks like an existing entry, unless the caller has
+        // chosen to save it anyway or to add it to that entry
+        duplicates: z
+          .discriminatedUnion("action", [
+            z.object({ action: z.literal("check") }),
+            z.object({ action: z.literal("save") }),
+            z.object({ action: z.literal("attach"), attachTo: z.number().int() }),
+          ])
+          .optional()
+          .default({ action: "check" }),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const result = await ctx.db
-        .insert(audioFingerprints)
-        .values({
-          name: input.name,
-          fingerprint: input.fingerprint,
-          duration: input.duration,
-        })
-        .returning();
-      return result[0];
+      const { duplicates, ...fingerprint } = input;
+      return await enrollFingerprint(ctx.db, fingerprint, duplicates);
     }),
 
+  // The strategies multichannel queries are also fingerprinted with
+  getChannelStrategies: publicProcedure.query(async ({ ctx }) => {
+    return await listChannelStrategies(ctx.db);
+  }),
+
   identifyAudio: publicProcedure
     .input(
       z.object({
         fingerprint: z.string(),
-        minSimilarity: z.number().optional().default(0.7),
+        strategyFingerprints: strategyFingerprintsSchema.optional(),
+        maxFalsePositiveRate: z.number().min(0).max(1).optional().default(0.01),
+        minSimilarity: z.number().min(0).max(1).optional(),
+        staleReferences: z.enum(["exclude", "downweight"]).optional().default("downweight"),
+        scaleSearch: scaleSearchSchema.optional(),
+        // Only used for the query log
+        source: z.enum(["record", "live"]).optional().default("record"),
+        queryDuration: z.number().nonnegative().optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      const allFingerprints = await ctx.db.select().from(audioFingerprints);
-      
-      const matches: AudioMatch[] = allFingerprints
-        .map((record) => {
-          const similarity = calculateSimilarity(input.fingerprint, record.fingerprint);
-          return {
-            id: record.id,
-            name: record.name,
-            duration: record.duration,
-            similarity,
-          };
-        })
-        .filter((match) => match.similarity >= input.minSimilarity)
-        .sort((a, b) => b.similarity - a.similarity);
-
-      return matches;
+      const { source, queryDuration, ...options } = input;
+      return await identifyAndRecord(ctx.db, options, { source, queryDuration });
+    }),
+
+  identifyTimeline: publicProcedure
+    .input(
+      z.object({
+        fingerprint: z.string(),
+        strategyFingerprints: strategyFingerprintsSchema.optional(),
+        maxFalsePositiveRate: z.number().min(0).max(1).optional().default(0.01),
+        minSimilarity: z.number().min(0).max(1).optional(),
+        staleReferences: z.enum(["exclude", "downweight"]).optional().default("downweight"),
+        segmentSeconds: z.number().min(1).max(60).optional(),
+        hopSeconds: z.number().min(0.5).max(60).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return await identifyTimeline(ctx.db, input);
     }),
 
   getAllFingerprints: publicProcedure.query(async ({ ctx }) => {
     return await ctx.db.select().from(audioFingerprints);
   }),
-}); 
\ No newline at end of file
+
+  getFingerprint: publicProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      return await getFingerprint(ctx.db, input.id);
+    }),
+
+  updateFingerprint: publicProcedure
+    .input(
+      z.object({
+        id: z.number().int(),
+        name: nameSchema.optional(),
+        description: descriptionSchema.optional(),
+        category: categorySchema.optional(),
+        tags: tagsSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      return await updateFingerprint(ctx.db, id, changes);
+    }),
+
+  deleteFingerprint: publicProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      return await deleteFingerprint(ctx.db, input.id);
+    }),
+
+  deleteReferenceRecording: publicProcedure
+    .input(z.object({ fingerprintId: z.number().int(), recordingId: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      return await deleteReferenceRecording(ctx.db, input.fingerprintId, input.recordingId);
+    }),
+
+  // Folds `sourceId` into `targetId` as an extra reference recording
+  mergeFingerprints: publicProcedure
+    .input(z.object({ targetId: z.number().int(), sourceId: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      return await mergeFingerprints(ctx.db, input.targetId, input.sourceId);
+    }),
+
+  searchFingerprints: publicProcedure
+    .input(
+      z.object({
+        query: z.string().max(256).optional(),
+        tags: tagsSchema.optional(),
+        matchAllTags: z.boolean().optional().default(false),
+        category: z.string().max(64).optional(),
+        limit: z.number().int().min(1).max(100).optional().default(50),
+        offset: z.number().int().min(0).optional().default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return await searchFingerprints(ctx.db, input);
+    }),
+
+  listFingerprints: publicProcedure
+    .input(
+      z.object({
+        query: z.string().max(256).optional(),
+        sort: z.enum(["name", "createdAt", "duration"]).optional().default("createdAt"),
+        order: z.enum(["asc", "desc"]).optional().default("desc"),
+        cursor: z
+          .object({ value: z.union([z.string(), z.number()]), id: z.number().int() })
+          .nullish(),
+        limit: z.number().int().min(1).max(100).optional().default(25),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return await listFingerprints(ctx.db, input);
+    }),
+
+  getIdentificationAnalytics: publicProcedure
+    .input(z.object({ days: z.number().int().min(1).max(365).optional().default(30) }))
+    .query(async ({ ctx, input }) => {
+      return await getIdentificationAnalytics(ctx.db, input.days);
+    }),
+
+  getDuplicateReport: publicProcedure.query(async ({ ctx }) => {
+    return await getDuplicateReport(ctx.db);
+  }),
+
+  getReindexStatus: publicProcedure.query(async ({ ctx }) => {
+    return {
+      staleCount: await countStaleFingerprints(ctx.db),
+      latestJob: (await getLatestReindexJob(ctx.db)) ?? null,
+    };
+  }),
+});
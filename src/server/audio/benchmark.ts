@@ -0,0 +1,317 @@
+/**
+ * Offline robustness benchmark: enrolls reference clips, queries with distorted excerpts of them
+ * and of clips that were never enrolled, and measures how often the right sound comes back.
+ */
+
+import {
+  DEFAULT_CHANNEL_STRATEGY,
+  formatChannelStrategy,
+  IDENTIFY_CHANNEL_STRATEGY,
+} from "~/lib/channels";
+import {
+  applyDistortion,
+  createRandom,
+  describeDistortion,
+  type Distortion,
+  type RandomSource,
+} from "~/lib/distortions";
+import { percentile } from "~/lib/utils";
+import { encodeWav } from "~/lib/wav";
+import { type db as database } from "~/server/db";
+import { decodeAudioFile } from "./decode";
+import { identifyFingerprint, insertFingerprint } from "./fingerprints";
+import { analyzeAudioUpload } from "./ingest";
+
+type Database = typeof database;
+
+// False positives fail the calibration check when a binomial at the nominal rate would reach as
+// many less often than this
+const CALIBRATION_SIGNIFICANCE = 0.001;
+
+export interface BenchmarkClip {
+  name: string;
+  sampleRate: number;
+  /** Mono mix that queries are cut from. */
+  samples: Float32Array;
+  /** The file as it is enrolled. */
+  bytes: Uint8Array;
+}
+
+export interface BenchmarkScenario {
+  name: string;
+  /** Applied in order to each query excerpt. */
+  distortions: Distortion[];
+}
+
+export interface BenchmarkOptions {
+  /** Enrolled before querying. */
+  references: BenchmarkClip[];
+  /** Never enrolled; any match for them is a false positive. */
+  distractors: BenchmarkClip[];
+  scenarios: BenchmarkScenario[];
+  /** Seconds of each clip a query is cut from, before distortions change its length. */
+  queryDuration: number;
+  maxFalsePositiveRate: number;
+  seed: number;
+  onProgress?: (scenario: ScenarioResult) => void;
+}
+
+export interface ScenarioResult {
+  scenario: string;
+  queries: number;
+  /** Share of matched queries whose top match is the right reference; null if none matched. */
+  precision: number | null;
+  /** Share of reference queries whose reference is among the matches. */
+  recall: number;
+  /** Share of reference queries whose top match is their reference. */
+  top1Accuracy: number;
+  /** Distractor queries that matched anything. */
+  falsePositives: number;
+  /**
+   * Whether that many false positives is plausible at the false-positive rate matches were
+   * accepted at; false when chance matches are reported as less likely than they are.
+   */
+  calibrated: boolean;
+  /** Milliseconds from WAV bytes to matches: decoding, fingerprinting and lookup. */
+  latency: { p50: number | null; p95: number | null };
+}
+
+export interface BenchmarkReport {
+  references: number;
+  distractors: number;
+  queryDuration: number;
+  maxFalsePositiveRate: number;
+  seed: number;
+  scenarios: ScenarioResult[];
+}
+
+function scenario(...distortions: Distortion[]): BenchmarkScenario {
+  return {
+    name: distortions.length === 0 ? "clean" : distortions.map(describeDistortion).join(" + "),
+    distortions,
+  };
+}
+
+export const DEFAULT_SCENARIOS: BenchmarkScenario[] = [
+  scenario(),
+  ...[20, 10, 5, 0].map((snrDb) => scenario({ type: "noise", snrDb })),
+  scenario({ type: "gain", db: -20 }),
+  scenario({ type: "gain", db: 12 }),
+  scenario({ type: "crop", seconds: 2 }),
+  scenario({ type: "crop", seconds: 1 }),
+  scenario({ type: "shift", seconds: 0.5 }),
+  scenario({ type: "lowpass", frequency: 4000 }),
+  scenario({ type: "lowpass", frequency: 1500 }),
+  scenario({ type: "speed", factor: 0.98 }),
+  scenario({ type: "speed", factor: 1.05 }),
+  scenario({ type: "reverb", decaySeconds: 1.2, mix: 0.4 }),
+  // A phone call: narrow band and a noisy line
+  scenario({ type: "lowpass", frequency: 3400 }, { type: "noise", snrDb: 15 }),
+];
+
+/**
+ * A synthetic stand-in for a recording: notes of random pitch and length with a few harmonics,
+ * short fades against clicks and a little background noise.
+ */
+export function generateReferenceSamples(
+  duration: number,
+  sampleRate: number,
+  random: RandomSource
+): Float32Array {
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  const fade = Math.round(0.005 * sampleRate);
+
+  let start = 0;
+  while (start < samples.length) {
+    const length = Math.round((0.05 + random() * 0.35) * sampleRate);
+    // Log-uniform between 100 Hz and 4 kHz
+    const frequency = 100 * 40 ** random();
+    const harmonics = [0.4, 0.2 * random(), 0.1 * random()].slice(0, 1 + Math.floor(random() * 3));
+
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      let sample = 0;
+      harmonics.forEach((amplitude, h) => {
+        sample += amplitude * Math.sin((2 * Math.PI * frequency * (h + 1) * i) / sampleRate);
+      });
+      const envelope = Math.min(1, i / fade, (length - i) / fade);
+      samples[start + i] = sample * envelope + 0.01 * (2 * random() - 1);
+    }
+    start += length;
+  }
+
+  return samples;
+}
+
+export function clipFromSamples(
+  name: string,
+  samples: Float32Array,
+  sampleRate: number
+): BenchmarkClip {
+  return {
+    name,
+    sampleRate,
+    samples,
+    bytes: encodeWav({ sampleRate, channels: [samples] }),
+  };
+}
+
+/**
+ * Reads a WAV file, keeping the original bytes for enrollment and a mono mix for queries.
+ */
+export function clipFromFile(name: string, bytes: Uint8Array): BenchmarkClip {
+  const { sampleRate, channels } = decodeAudioFile(bytes);
+  const samples = new Float32Array(channels[0]?.length ?? 0);
+  for (const channel of channels) {
+    channel.forEach((sample, i) => {
+      samples[i] = samples[i]! + sample / channels.length;
+    });
+  }
+  return { name, sampleRate, samples, bytes };
+}
+
+/** P(X >= k) for X ~ Binomial(trials, p). */
+function binomialTail(trials: number, p: number, k: number): number {
+  if (k <= 0) return 1;
+  if (p <= 0 || k > trials) return 0;
+  if (p >= 1) return 1;
+
+  // Sum the probabilities below k in log space, from P(X = 0) up
+  const logOdds = Math.log(p) - Math.log1p(-p);
+  let logTerm = trials * Math.log1p(-p);
+  let below = 0;
+  for (let i = 0; i < k; i++) {
+    below += Math.exp(logTerm);
+    logTerm += Math.log((trials - i) / (i + 1)) + logOdds;
+  }
+  return Math.max(0, 1 - below);
+}
+
+/**
+ * Whether `falsePositives` out of `distractors` queries is consistent with matches being accepted
+ * at `maxFalsePositiveRate`.
+ */
+export function isCalibrated(
+  falsePositives: number,
+  distractors: number,
+  maxFalsePositiveRate: number
+): boolean {
+  return (
+    binomialTail(distractors, maxFalsePositiveRate, falsePositives) >= CALIBRATION_SIGNIFICANCE
+  );
+}
+
+function excerpt(clip: BenchmarkClip, duration: number, random: RandomSource): Float32Array {
+  const length = Math.min(clip.samples.length, Math.round(duration * clip.sampleRate));
+  const start = Math.floor(random() * (clip.samples.length - length + 1));
+  return clip.samples.slice(start, start + length);
+}
+
+/**
+ * Enrolls a clip the way the enroll route does, through the service `createFingerprint` uses,
+ * minus storing the audio file itself.
+ */
+async function enroll(db: Database, clip: BenchmarkClip): Promise<number> {
+  const analysis = analyzeAudioUpload({ bytes: clip.bytes, fields: {} }, DEFAULT_CHANNEL_STRATEGY);
+  const record = await insertFingerprint(db, {
+    name: clip.name,
+    fingerprint: analysis.fingerprint,
+    duration: Math.round(analysis.duration),
+    sampleRate: analysis.sampleRate,
+    channelCount: analysis.channelCount,
+    analysisSampleRate: analysis.analysisSampleRate,
+    algorithmVersion: analysis.algorithmVersion,
+    algorithmParameters: analysis.algorithmParameters,
+    channelStrategy: formatChannelStrategy(DEFAULT_CHANNEL_STRATEGY),
+    contentHash: analysis.contentHash,
+  });
+  if (!record) throw new Error(`Failed to enroll ${clip.name}`);
+  return record.id;
+}
+
+/**
+ * Runs every scenario against a freshly enrolled library. The database should be empty, since
+ * anything already in it competes with the references.
+ */
+export async function runBenchmark(
+  db: Database,
+  options: BenchmarkOptions
+): Promise<BenchmarkReport> {
+  const queries: { clip: BenchmarkClip; referenceId: number | null }[] = [];
+  for (const clip of options.references) {
+    queries.push({ clip, referenceId: await enroll(db, clip) });
+  }
+  for (const clip of options.distractors) {
+    queries.push({ clip, referenceId: null });
+  }
+
+  const scenarios: ScenarioResult[] = [];
+  for (const [index, { name, distortions }] of options.scenarios.entries()) {
+    // A stream per scenario, so each one's excerpts don't depend on how much randomness the
+    // distortions before it used
+    const random = createRandom(options.seed + index);
+    let matched = 0;
+    let correctTopMatches = 0;
+    let found = 0;
+    let falsePositives = 0;
+    const latencies: number[] = [];
+
+    for (const { clip, referenceId } of queries) {
+      let samples = excerpt(clip, options.queryDuration, random);
+      for (const distortion of distortions) {
+        samples = applyDistortion(samples, clip.sampleRate, distortion, random);
+      }
+      const bytes = encodeWav({
+        sampleRate: clip.sampleRate,
+        channels: [samples],
+      });
+
+      const started = performance.now();
+      const analysis = analyzeAudioUpload({ bytes, fields: {} }, IDENTIFY_CHANNEL_STRATEGY);
+      const matches = await identifyFingerprint(db, {
+        fingerprint: analysis.fingerprint,
+        maxFalsePositiveRate: options.maxFalsePositiveRate,
+      });
+      latencies.push(performance.now() - started);
+
+      const [topMatch] = matches;
+      if (topMatch) matched++;
+      if (referenceId === null) {
+        if (topMatch) falsePositives++;
+        continue;
+      }
+      if (topMatch?.id === referenceId) correctTopMatches++;
+      if (matches.some((match) => match.id === referenceId)) found++;
+    }
+
+    latencies.sort((a, b) => a - b);
+    const result: ScenarioResult = {
+      scenario: name,
+      queries: queries.length,
+      precision: matched === 0 ? null : correctTopMatches / matched,
+      recall: options.references.length === 0 ? 0 : found / options.references.length,
+      top1Accuracy:
+        options.references.length === 0 ? 0 : correctTopMatches / options.references.length,
+      falsePositives,
+      calibrated: isCalibrated(
+        falsePositives,
+        options.distractors.length,
+        options.maxFalsePositiveRate
+      ),
+      latency: {
+        p50: percentile(latencies, 0.5),
+        p95: percentile(latencies, 0.95),
+      },
+    };
+    scenarios.push(result);
+    options.onProgress?.(result);
+  }
+
+  return {
+    references: options.references.length,
+    distractors: options.distractors.length,
+    queryDuration: options.queryDuration,
+    maxFalsePositiveRate: options.maxFalsePositiveRate,
+    seed: options.seed,
+    scenarios,
+  };
+}
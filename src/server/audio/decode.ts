@@ -0,0 +1,32 @@
+import { decodeWav, isWav, WavError, type WavAudio } from "~/lib/wav";
+
+export type DecodedAudio = WavAudio;
+
+export class AudioDecodeError extends Error {
+  constructor(
+    message: string,
+    /** True when the file is well-formed but in a format we can't decode. */
+    readonly unsupported = false
+  ) {
+    super(message);
+    this.name = "AudioDecodeError";
+  }
+}
+
+/**
+ * Decodes an uploaded audio file without the Web Audio API. Only WAV files are understood for now.
+ */
+export function decodeAudioFile(bytes: Uint8Array): DecodedAudio {
+  if (!isWav(bytes)) {
+    throw new AudioDecodeError("Only WAV files can be decoded on the server", true);
+  }
+
+  try {
+    return decodeWav(bytes);
+  } catch (error) {
+    if (error instanceof WavError) {
+      throw new AudioDecodeError(error.message, error.code === "unsupported");
+    }
+    throw error;
+  }
+}
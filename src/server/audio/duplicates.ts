@@ -0,0 +1,310 @@
+/**
+ * Finds sounds that are in the library more than once: new ones before they are enrolled again
+ * under another name, and existing ones with a scan of the whole library.
+ */
+
+import { asc, count, desc, eq, gt, inArray, sql } from "drizzle-orm";
+
+import { type db as database } from "~/server/db";
+import { audioFingerprints, duplicatePairs, duplicateScans } from "~/server/db/schema";
+import { type AudioMatch } from "~/types/audio";
+import {
+  addReferenceRecording,
+  identifyFingerprint,
+  insertFingerprint,
+  type NewFingerprint,
+} from "./fingerprints";
+
+type Database = typeof database;
+
+export type DuplicateScan = typeof duplicateScans.$inferSelect;
+export type DuplicatePair = Omit<typeof duplicatePairs.$inferSelect, "scanId">;
+
+export interface DuplicateScanOptions {
+  batchSize: number;
+  /** Called after every batch with the saved state of the scan. */
+  onProgress?: (scan: DuplicateScan) => void;
+}
+
+export interface DuplicateCluster {
+  /** Oldest first. */
+  members: {
+    id: number;
+    name: string;
+    duration: number;
+    category: string | null;
+    hasAudio: boolean;
+    createdAt: Date;
+  }[];
+  /** Every pair the scan found between members, strongest first. */
+  pairs: DuplicatePair[];
+}
+
+// Keeps each statement well below SQLite's bound parameter limit
+const MEMBER_BATCH_SIZE = 500;
+
+/**
+ * What to do when the new sound matches existing entries:
+ *
+ * - `check`: enroll nothing and report the possible duplicates
+ * - `save`: enroll it as a new entry anyway
+ * - `attach`: add it as an extra reference recording of `attachTo`, without checking
+ */
+export type DuplicateResolution =
+  { action: "check" } | { action: "save" } | { action: "attach"; attachTo: number };
+
+export type EnrollmentResult =
+  | { status: "created"; fingerprint: Awaited<ReturnType<typeof insertFingerprint>> }
+  | { status: "attached"; recording: Awaited<ReturnType<typeof addReferenceRecording>> }
+  | { status: "duplicate"; duplicates: AudioMatch[] };
+
+// Stricter than identification, since a false alarm interrupts every enrollment it hits
+const DUPLICATE_MAX_FALSE_POSITIVE_RATE = 0.001;
+// A re-recording shares a large part of its hashes with the original, even through noise or
+// reverb, while an unrelated sound that happens to repeat a few notes of it shares only a handful
+const DUPLICATE_MIN_SIMILARITY = 0.1;
+
+/**
+ * Existing entries the fingerprint is very likely a recording of, strongest first.
+ */
+export async function findPossibleDuplicates(
+  db: Database,
+  fingerprint: string,
+  excludeId?: number
+): Promise<AudioMatch[]> {
+  return await identifyFingerprint(db, {
+    fingerprint,
+    excludeId,
+    maxFalsePositiveRate: DUPLICATE_MAX_FALSE_POSITIVE_RATE,
+    minSimilarity: DUPLICATE_MIN_SIMILARITY,
+  });
+}
+
+/**
+ * Enrolls a sound, first checking it against the library unless the caller has already decided what
+ * to do with duplicates.
+ */
+export async function enrollFingerprint(
+  db: Database,
+  input: NewFingerprint,
+  resolution: DuplicateResolution
+): Promise<EnrollmentResult> {
+  if (resolution.action === "attach") {
+    const recording = await addReferenceRecording(db, resolution.attachTo, input);
+    return { status: "attached", recording };
+  }
+
+  if (resolution.action === "check") {
+    const duplicates = await findPossibleDuplicates(db, input.fingerprint);
+    if (duplicates.length > 0) return { status: "duplicate", duplicates };
+  }
+
+  const fingerprint = await insertFingerprint(db, input);
+  return { status: "created", fingerprint };
+}
+
+export async function getLatestDuplicateScan(db: Database) {
+  return await db.query.duplicateScans.findFirst({ orderBy: desc(duplicateScans.id) });
+}
+
+/**
+ * The most recent scan that was interrupted before finishing.
+ */
+export async function findResumableDuplicateScan(db: Database) {
+  return await db.query.duplicateScans.findFirst({
+    where: eq(duplicateScans.status, "running"),
+    orderBy: desc(duplicateScans.id),
+  });
+}
+
+export async function createDuplicateScan(db: Database): Promise<DuplicateScan> {
+  const [library] = await db.select({ size: count() }).from(audioFingerprints);
+  const [scan] = await db
+    .insert(duplicateScans)
+    .values({ status: "running", total: library?.size ?? 0 })
+    .returning();
+  if (!scan) throw new Error("Failed to create duplicate scan");
+  return scan;
+}
+
+/**
+ * Checks every entry after the scan's last processed one against the rest of the library through
+ * the hash index, with the same thresholds as enrollment, and records each duplicate pair found.
+ * Progress is saved after every batch.
+ */
+export async function runDuplicateScan(
+  db: Database,
+  scanId: number,
+  options: DuplicateScanOptions
+): Promise<DuplicateScan> {
+  let scan = await db.query.duplicateScans.findFirst({ where: eq(duplicateScans.id, scanId) });
+  if (!scan) throw new Error(`Duplicate scan ${scanId} does not exist`);
+
+  try {
+    for (;;) {
+      const rows = await db
+        .select({ id: audioFingerprints.id, fingerprint: audioFingerprints.fingerprint })
+        .from(audioFingerprints)
+        .where(gt(audioFingerprints.id, scan.lastFingerprintId))
+        .orderBy(asc(audioFingerprints.id))
+        .limit(options.batchSize);
+      if (rows.length === 0) break;
+
+      const progress = { scanned: 0, failed: 0, lastError: scan.lastError };
+      for (const row of rows) {
+        try {
+          const duplicates = await findPossibleDuplicates(db, row.fingerprint, row.id);
+          await recordPairs(
+            db,
+            scan.id,
+            duplicates.map((match) => ({
+              fingerprintId: Math.min(row.id, match.id),
+              duplicateId: Math.max(row.id, match.id),
+              similarity: match.similarity,
+              falsePositiveRate: match.falsePositiveRate,
+            }))
+          );
+          progress.scanned++;
+        } catch (error) {
+          progress.failed++;
+          progress.lastError = `Fingerprint ${row.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+        }
+      }
+
+      scan = await updateScan(db, scan.id, {
+        scanned: scan.scanned + progress.scanned,
+        failed: scan.failed + progress.failed,
+        lastError: progress.lastError,
+        lastFingerprintId: rows[rows.length - 1]!.id,
+      });
+      options.onProgress?.(scan);
+    }
+
+    return await updateScan(db, scan.id, { status: "completed", completedAt: new Date() });
+  } catch (error) {
+    await updateScan(db, scan.id, {
+      status: "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+async function recordPairs(db: Database, scanId: number, pairs: DuplicatePair[]) {
+  if (pairs.length === 0) return;
+
+  // Each pair is usually found from both of its entries; keep the stronger evidence
+  const { similarity, falsePositiveRate } = duplicatePairs;
+  await db
+    .insert(duplicatePairs)
+    .values(pairs.map((pair) => ({ ...pair, scanId })))
+    .onConflictDoUpdate({
+      target: [duplicatePairs.scanId, duplicatePairs.fingerprintId, duplicatePairs.duplicateId],
+      set: {
+        similarity: sql`max(${similarity}, excluded.similarity)`,
+        falsePositiveRate: sql`min(${falsePositiveRate}, excluded.false_positive_rate)`,
+      },
+    });
+}
+
+async function updateScan(
+  db: Database,
+  id: number,
+  changes: Partial<Omit<DuplicateScan, "id" | "createdAt" | "updatedAt">>
+): Promise<DuplicateScan> {
+  const [scan] = await db
+    .update(duplicateScans)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(duplicateScans.id, id))
+    .returning();
+  if (!scan) throw new Error(`Duplicate scan ${id} does not exist`);
+  return scan;
+}
+
+/**
+ * Groups the pairs of the latest scan into clusters of entries that are the same sound, directly or
+ * through each other, largest first. While a scan is still running, the clusters found so far are
+ * returned.
+ */
+export async function getDuplicateReport(db: Database) {
+  const scan = await getLatestDuplicateScan(db);
+  if (!scan) return { scan: null, clusters: [] };
+
+  const pairs = await db
+    .select({
+      fingerprintId: duplicatePairs.fingerprintId,
+      duplicateId: duplicatePairs.duplicateId,
+      similarity: duplicatePairs.similarity,
+      falsePositiveRate: duplicatePairs.falsePositiveRate,
+    })
+    .from(duplicatePairs)
+    .where(eq(duplicatePairs.scanId, scan.id))
+    .orderBy(desc(duplicatePairs.similarity));
+
+  // Union-find over entry ids, so clusters are the connected components of the pair graph
+  const parents = new Map<number, number>();
+  const find = (id: number): number => {
+    const parent = parents.get(id) ?? id;
+    if (parent === id) return id;
+    const root = find(parent);
+    parents.set(id, root);
+    return root;
+  };
+  for (const pair of pairs) {
+    const a = find(pair.fingerprintId);
+    const b = find(pair.duplicateId);
+    parents.set(a, a);
+    if (a !== b) parents.set(b, a);
+  }
+
+  const ids = [...parents.keys()];
+  const members = new Map<number, DuplicateCluster["members"][number]>();
+  for (let i = 0; i < ids.length; i += MEMBER_BATCH_SIZE) {
+    const rows = await db
+      .select({
+        id: audioFingerprints.id,
+        name: audioFingerprints.name,
+        duration: audioFingerprints.duration,
+        category: audioFingerprints.category,
+        audioFile: audioFingerprints.audioFile,
+        createdAt: audioFingerprints.createdAt,
+      })
+      .from(audioFingerprints)
+      .where(inArray(audioFingerprints.id, ids.slice(i, i + MEMBER_BATCH_SIZE)));
+    for (const { audioFile, ...member } of rows) {
+      members.set(member.id, { ...member, hasAudio: audioFile !== null });
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (const pair of pairs) {
+    const root = find(pair.fingerprintId);
+    const cluster = clusters.get(root) ?? { members: [], pairs: [] };
+    cluster.pairs.push(pair);
+    clusters.set(root, cluster);
+  }
+  for (const id of ids) {
+    const member = members.get(id);
+    if (member) clusters.get(find(id))?.members.push(member);
+  }
+
+  return {
+    scan,
+    clusters: [...clusters.values()]
+      // Pairs whose entries were deleted since the scan are left out with them
+      .filter((cluster) => cluster.members.length > 1)
+      .map((cluster) => ({
+        ...cluster,
+        members: cluster.members.sort(
+          (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.members.length - a.members.length ||
+          (b.pairs[0]?.similarity ?? 0) - (a.pairs[0]?.similarity ?? 0)
+      ),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Exports of library entries for use in other tools: their stored audio re-encoded as WAV, and the
+ * analysis their fingerprint is made from.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+
+import { extractChannelFeatures } from "~/lib/audio";
+import {
+  formatChannelStrategy,
+  LEGACY_CHANNEL_STRATEGY,
+  parseChannelStrategy,
+} from "~/lib/channels";
+import {
+  createFeatureExport,
+  exportFileName,
+  exportWav,
+  type FeatureExport,
+  type WavExportOptions,
+} from "~/lib/export";
+import { type db as database } from "~/server/db";
+import { audioFingerprints, referenceRecordings } from "~/server/db/schema";
+import { AudioDecodeError, decodeAudioFile } from "./decode";
+import { getFingerprintAudio, getRecordingAudio } from "./fingerprints";
+import { readStoredAudio } from "./storage";
+
+type Database = typeof database;
+
+export interface ExportedFile {
+  bytes: Uint8Array<ArrayBuffer>;
+  fileName: string;
+}
+
+/**
+ * Decodes the stored audio of an entry, or of one of its extra reference recordings, along with
+ * what its fingerprint was made with.
+ */
+async function loadStoredAudio(db: Database, id: number, recordingId: number | null) {
+  const stored =
+    recordingId === null
+      ? await getFingerprintAudio(db, id)
+      : await getRecordingAudio(db, id, recordingId);
+
+  const [entry, recording] = await Promise.all([
+    db.query.audioFingerprints.findFirst({
+      columns: { name: true, channelStrategy: true, effectChain: true },
+      where: eq(audioFingerprints.id, id),
+    }),
+    recordingId === null
+      ? undefined
+      : db.query.referenceRecordings.findFirst({
+          columns: { channelStrategy: true, effectChain: true },
+          where: and(
+            eq(referenceRecordings.id, recordingId),
+            eq(referenceRecordings.fingerprintId, id)
+          ),
+        }),
+  ]);
+  const source = recording ?? entry;
+  // Deleted since its audio was looked up
+  if (!entry || !source) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Fingerprint ${id} does not exist` });
+  }
+
+  const audio = decodeAudioFile(await readStoredAudio(stored.file));
+  if ((audio.channels[0]?.length ?? 0) === 0) {
+    throw new AudioDecodeError("Audio file contains no samples");
+  }
+
+  return {
+    name: entry.name,
+    suffix: recordingId === null ? null : `recording-${recordingId}`,
+    channelStrategy: source.channelStrategy,
+    effectChain: source.effectChain,
+    audio,
+  };
+}
+
+/**
+ * Re-encodes the stored audio of an entry as WAV. Only WAV audio can be decoded on the server, so
+ * entries stored in other formats are rejected with an unsupported `AudioDecodeError`.
+ */
+export async function exportStoredWav(
+  db: Database,
+  id: number,
+  recordingId: number | null,
+  options: WavExportOptions = {}
+): Promise<ExportedFile> {
+  const { name, suffix, audio } = await loadStoredAudio(db, id, recordingId);
+  return { bytes: exportWav(audio, options), fileName: exportFileName(name, suffix, "wav") };
+}
+
+/**
+ * Extracts the features of an entry's stored audio the way its fingerprint is made, with the
+ * current algorithm and the channel strategy it was enrolled with.
+ */
+export async function exportStoredFeatures(
+  db: Database,
+  id: number,
+  recordingId: number | null
+): Promise<{ analysis: FeatureExport; fileName: string }> {
+  const { name, suffix, audio, effectChain, ...stored } = await loadStoredAudio(
+    db,
+    id,
+    recordingId
+  );
+  const channelStrategy = stored.channelStrategy
+    ? parseChannelStrategy(stored.channelStrategy)
+    : LEGACY_CHANNEL_STRATEGY;
+  if (!channelStrategy) throw new Error(`Unknown channel strategy: ${stored.channelStrategy}`);
+
+  const analysis = createFeatureExport({
+    name,
+    duration: audio.channels[0]!.length / audio.sampleRate,
+    sampleRate: audio.sampleRate,
+    channelStrategy: formatChannelStrategy(channelStrategy),
+    effectChain,
+    features: extractChannelFeatures(audio.channels, audio.sampleRate, channelStrategy),
+  });
+  return { analysis, fileName: exportFileName(name, suffix, "json") };
+}
@@ -0,0 +1,173 @@
+import { createClient, type Client } from "@libsql/client";
+import type * as drizzleKit from "drizzle-kit/api";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  ANALYSIS_SAMPLE_RATE,
+  CURRENT_ALGORITHM,
+  extractAudioFeatures,
+  generateFingerprint,
+  generateLandmarks,
+} from "~/lib/audio";
+import { createRandom } from "~/lib/distortions";
+import { type db as database } from "~/server/db";
+import * as schema from "~/server/db/schema";
+import { convertLegacyTimestamps } from "~/server/db/timestamps";
+import { generateReferenceSamples } from "./benchmark";
+import {
+  deleteFingerprint,
+  identifyFingerprint,
+  insertFingerprint,
+  listFingerprints,
+  type FingerprintList,
+} from "./fingerprints";
+
+// The ESM build of drizzle-kit's API requires Node built-ins dynamically, which vitest can't load
+const { pushSQLiteSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof drizzleKit;
+
+type Database = typeof database;
+
+let directory: string;
+let client: Client;
+let db: Database;
+
+// A file rather than `:memory:`, which transactions would see as a separate, empty database
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "soundprint-test-"));
+  client = createClient({ url: `file:${join(directory, "test.db")}` });
+  db = drizzle(client, { schema });
+  const { apply } = await pushSQLiteSchema(schema, db);
+  await apply();
+});
+
+afterEach(async () => {
+  client.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+/** Enrolls a fingerprint the way the baseline did, with `CURRENT_TIMESTAMP` text timestamps. */
+async function insertLegacy(name: string, timestamp: string): Promise<number> {
+  const result = await client.execute({
+    sql: `insert into soundprint_audio_fingerprints (name, fingerprint, duration, created_at, updated_at)
+          values (?, '', 1, ?, ?)`,
+    args: [name, timestamp, timestamp],
+  });
+  return Number(result.lastInsertRowid);
+}
+
+async function insertCurrent(name: string, createdAt: string): Promise<number> {
+  const [row] = await db
+    .insert(schema.audioFingerprints)
+    .values({ name, fingerprint: "", duration: 1, createdAt: new Date(`${createdAt}Z`) })
+    .returning({ id: schema.audioFingerprints.id });
+  return row!.id;
+}
+
+async function listAll(list: Omit<FingerprintList, "cursor">) {
+  const ids: number[] = [];
+  let cursor: FingerprintList["cursor"] = null;
+  for (let page = 0; page < 10; page++) {
+    const result = await listFingerprints(db, { ...list, cursor });
+    ids.push(...result.items.map((item) => item.id));
+    if (!result.nextCursor) return ids;
+
+    expect(result.nextCursor.value).not.toBeNaN();
+    cursor = result.nextCursor;
+  }
+  throw new Error("Paging never finished");
+}
+
+describe("listFingerprints", () => {
+  let ids: number[];
+
+  beforeEach(async () => {
+    ids = [
+      await insertLegacy("first", "2024-01-01 00:00:00"),
+      await insertCurrent("second", "2024-02-01 00:00:00"),
+      await insertLegacy("third", "2024-03-01 00:00:00"),
+      await insertCurrent("fourth", "2024-04-01 00:00:00"),
+      await insertLegacy("fifth", "2024-05-01 00:00:00"),
+    ];
+  });
+
+  it("pages by createdAt past timestamps still stored as text", async () => {
+    for (const order of ["asc", "desc"] as const) {
+      const listed = await listAll({ sort: "createdAt", order, limit: 2 });
+      expect([...listed].sort()).toEqual([...ids].sort());
+    }
+  });
+
+  it("pages by createdAt in time order once the timestamps are converted", async () => {
+    expect(await convertLegacyTimestamps(db)).toEqual({ createdAt: 3, updatedAt: 3 });
+
+    expect(await listAll({ sort: "createdAt", order: "asc", limit: 2 })).toEqual(ids);
+    expect(await listAll({ sort: "createdAt", order: "desc", limit: 2 })).toEqual(
+      [...ids].reverse()
+    );
+
+    const { items } = await listFingerprints(db, { sort: "createdAt", order: "asc", limit: 1 });
+    expect(items[0]!.createdAt).toEqual(new Date("2024-01-01T00:00:00Z"));
+  });
+});
+
+describe("identifyFingerprint", () => {
+  const references = [1, 2, 3].map((seed) =>
+    generateReferenceSamples(10, ANALYSIS_SAMPLE_RATE, createRandom(seed))
+  );
+
+  async function enroll(name: string, samples: Float32Array) {
+    const record = await insertFingerprint(db, {
+      name,
+      fingerprint: generateFingerprint(extractAudioFeatures(samples, ANALYSIS_SAMPLE_RATE)),
+      duration: samples.length / ANALYSIS_SAMPLE_RATE,
+      ...CURRENT_ALGORITHM,
+    });
+    return record!.id;
+  }
+
+  async function indexedHashes(fingerprintId: number) {
+    return await db
+      .select({
+        hash: schema.fingerprintHashes.hash,
+        anchorTime: schema.fingerprintHashes.anchorTime,
+      })
+      .from(schema.fingerprintHashes)
+      .where(eq(schema.fingerprintHashes.fingerprintId, fingerprintId));
+  }
+
+  it("indexes every landmark of an enrolled fingerprint and drops them on delete", async () => {
+    const id = await enroll("reference", references[0]!);
+    const landmarks = generateLandmarks(extractAudioFeatures(references[0]!, ANALYSIS_SAMPLE_RATE));
+
+    const byHash = (a: { hash: number; anchorTime: number }, b: typeof a) =>
+      a.hash - b.hash || a.anchorTime - b.anchorTime;
+    expect((await indexedHashes(id)).sort(byHash)).toEqual([...landmarks].sort(byHash));
+
+    await deleteFingerprint(db, id);
+    expect(await indexedHashes(id)).toEqual([]);
+  });
+
+  it("finds an excerpt's reference through the hash index", async () => {
+    const ids = [
+      await enroll("first", references[0]!),
+      await enroll("second", references[1]!),
+      await enroll("third", references[2]!),
+    ];
+    const excerpt = references[1]!.subarray(3 * ANALYSIS_SAMPLE_RATE, 7 * ANALYSIS_SAMPLE_RATE);
+
+    const [best, ...rest] = await identifyFingerprint(db, {
+      fingerprint: generateFingerprint(extractAudioFeatures(excerpt, ANALYSIS_SAMPLE_RATE)),
+    });
+    expect(best!.id).toBe(ids[1]);
+    expect(best!.offsetSeconds).toBeCloseTo(3, 1);
+    for (const match of rest) {
+      expect(match.alignedHashCount).toBeLessThan(best!.alignedHashCount / 5);
+    }
+  });
+});
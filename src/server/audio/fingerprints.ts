@@ -0,0 +1,1461 @@
+/**
+ * Fingerprint storage and identification shared by `audioRouter` and the `/api/audio` route
+ * handlers, so browser and server-side ingestion go through the same code.
+ */
+
+import { TRPCError } from "@trpc/server";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  like,
+  lt,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+
+import {
+  compareFingerprints,
+  compareLandmarks,
+  compareRescaledLandmarks,
+  isCurrentAlgorithm,
+  landmarkSpanSeconds,
+  OFFSET_BIN_SECONDS,
+  OFFSET_CLUSTER_BINS,
+  parseFingerprint,
+  rescaleLandmarks,
+  scaleSearchGrid,
+  segmentLandmarks,
+} from "~/lib/audio";
+import { formatChannelStrategy, LEGACY_CHANNEL_STRATEGY } from "~/lib/channels";
+import { createChanceBaseline, estimateFalsePositiveRate } from "~/lib/confidence";
+import { type db as database } from "~/server/db";
+import { deleteStoredAudio, storeAudio, type AudioFile, type StoredAudio } from "./storage";
+import {
+  audioFingerprints,
+  duplicatePairs,
+  fingerprintHashes,
+  fingerprintTags,
+  identificationQueries,
+  referenceRecordings,
+} from "~/server/db/schema";
+import {
+  type AudioMatch,
+  type FingerprintComparison,
+  type Landmark,
+  type ParsedFingerprint,
+  type PlaybackScale,
+  type TimelineDetection,
+} from "~/types/audio";
+
+type Database = typeof database;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export interface FingerprintMetadata {
+  description?: string | null;
+  category?: string | null;
+  tags?: string[];
+}
+
+export interface NewFingerprint extends FingerprintMetadata {
+  name: string;
+  fingerprint: string;
+  duration: number;
+  sourceFilename?: string;
+  sampleRate?: number;
+  channelCount?: number;
+  analysisSampleRate?: number;
+  channelStrategy?: string;
+  /** Serialized `EffectChain` the audio was processed with; `audio` is the processed version. */
+  effectChain?: string;
+  /** SHA-256 of the original audio file, used to skip files that were already enrolled. */
+  contentHash?: string;
+  algorithmVersion?: number | null;
+  algorithmParameters?: string | null;
+  /** Original audio, kept in `AUDIO_STORAGE_DIR` for playback and re-fingerprinting. */
+  audio?: AudioFile;
+}
+
+/** A further recording of an existing entry, which keeps the entry's name and metadata. */
+export type NewReferenceRecording = Omit<NewFingerprint, "name" | keyof FingerprintMetadata>;
+
+export interface FingerprintChanges extends FingerprintMetadata {
+  name?: string;
+}
+
+export interface FingerprintSearch {
+  /** Matched against names and tags. */
+  query?: string;
+  tags?: string[];
+  /** Require every tag instead of any of them. */
+  matchAllTags?: boolean;
+  category?: string;
+  limit: number;
+  offset: number;
+}
+
+export type FingerprintSortField = "name" | "createdAt" | "duration";
+
+/** Position after the last row of a page: its value of the sort column, as stored, and its id. */
+export interface FingerprintCursor {
+  value: string | number;
+  id: number;
+}
+
+export interface FingerprintList {
+  /** Matched against names and tags. */
+  query?: string;
+  sort: FingerprintSortField;
+  order: "asc" | "desc";
+  cursor?: FingerprintCursor | null;
+  limit: number;
+}
+
+// Every column except the fingerprint itself, which can be hundreds of kilobytes
+export const fingerprintSummaryColumns = {
+  id: audioFingerprints.id,
+  name: audioFingerprints.name,
+  duration: audioFingerprints.duration,
+  description: audioFingerprints.description,
+  category: audioFingerprints.category,
+  sourceFilename: audioFingerprints.sourceFilename,
+  sampleRate: audioFingerprints.sampleRate,
+  channelCount: audioFingerprints.channelCount,
+  analysisSampleRate: audioFingerprints.analysisSampleRate,
+  channelStrategy: audioFingerprints.channelStrategy,
+  effectChain: audioFingerprints.effectChain,
+  contentHash: audioFingerprints.contentHash,
+  audioMimeType: audioFingerprints.audioMimeType,
+  algorithmVersion: audioFingerprints.algorithmVersion,
+  algorithmParameters: audioFingerprints.algorithmParameters,
+  createdAt: audioFingerprints.createdAt,
+  updatedAt: audioFingerprints.updatedAt,
+};
+
+export interface IdentifyOptions {
+  fingerprint: string;
+  /**
+   * Fingerprints of the same query made with other channel strategies, keyed by formatted strategy.
+   * References made with one of these strategies are compared with its fingerprint instead.
+   */
+  strategyFingerprints?: Record<string, string>;
+  /** Only return matches at least this likely not to be chance; see `estimateFalsePositiveRate`. */
+  maxFalsePositiveRate?: number;
+  /** Fraction of the query's hashes that must line up with the reference. */
+  minSimilarity?: number;
+  /**
+   * What to do with references made by an older algorithm, whose hashes rarely line up with the
+   * query's: leave them out, or keep them with their similarity scaled by `STALE_MATCH_WEIGHT`.
+   * Queries are assumed to come from the current algorithm.
+   */
+  staleReferences?: "exclude" | "downweight";
+  /** Entry to leave out, so a stored fingerprint can be checked against the rest of the library. */
+  excludeId?: number;
+  /**
+   * Also look for the query played back higher or lower and faster or slower than the reference,
+   * by up to these fractions either way (0.05 is ±5%). Every combination of factors is searched,
+   * so this is much slower than a plain identification.
+   */
+  scaleSearch?: { maxPitchChange: number; maxTempoChange: number };
+}
+
+// Similarity multiplier for references that haven't been reindexed with the current algorithm;
+// their false-positive rate is divided by it
+const STALE_MATCH_WEIGHT = 0.5;
+
+// Keeps each statement well below SQLite's bound parameter limit
+const HASH_BATCH_SIZE = 500;
+
+// Entries sharing the most hashes with the rescaled query that a scale search compares in full
+const SCALE_SEARCH_CANDIDATES = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function parseFingerprintInput(fingerprint: string): ParsedFingerprint {
+  try {
+    return parseFingerprint(fingerprint);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "Invalid fingerprint",
+    });
+  }
+}
+
+export async function insertFingerprint(db: Database, input: NewFingerprint) {
+  const [record] = await insertFingerprints(db, [input]);
+  return record;
+}
+
+/**
+ * Inserts several fingerprints and their hash index entries in a single transaction, so a batch is
+ * either stored completely or not at all.
+ */
+export async function insertFingerprints(db: Database, inputs: NewFingerprint[]) {
+  const parsedInputs = inputs.map((input) => ({
+    input,
+    parsed: parseFingerprintInput(input.fingerprint),
+  }));
+
+  // Files are written first and removed again if the transaction fails, so no row ever points to
+  // missing audio
+  const storedAudio = await Promise.all(
+    inputs.map(async (input) => (input.audio ? await storeAudio(input.audio) : null))
+  );
+
+  try {
+    return await insertFingerprintRows(db, parsedInputs, storedAudio);
+  } catch (error) {
+    await Promise.all(
+      storedAudio.map(async (stored) => {
+        if (stored) await deleteStoredAudio(stored.file);
+      })
+    );
+    throw error;
+  }
+}
+
+async function insertFingerprintRows(
+  db: Database,
+  parsedInputs: { input: NewFingerprint; parsed: ParsedFingerprint }[],
+  storedAudio: (StoredAudio | null)[]
+) {
+  return await db.transaction(async (tx) => {
+    const records = [];
+
+    for (const [i, { input, parsed }] of parsedInputs.entries()) {
+      const [record] = await tx
+        .insert(audioFingerprints)
+        .values({
+          name: input.name,
+          fingerprint: input.fingerprint,
+          duration: input.duration,
+          description: input.description,
+          category: input.category,
+          sourceFilename: input.sourceFilename,
+          sampleRate: input.sampleRate,
+          channelCount: input.channelCount,
+          analysisSampleRate: input.analysisSampleRate,
+          channelStrategy: input.channelStrategy,
+          effectChain: input.effectChain,
+          contentHash: input.contentHash,
+          audioFile: storedAudio[i]?.file,
+          audioMimeType: storedAudio[i]?.mimeType,
+          algorithmVersion: input.algorithmVersion,
+          algorithmParameters: input.algorithmParameters,
+        })
+        .returning();
+      if (!record) continue;
+
+      const tags = await setFingerprintTags(tx, record.id, input.tags ?? []);
+      records.push({ ...record, tags });
+      await insertHashes(tx, record.id, parsed);
+    }
+
+    return records;
+  });
+}
+
+async function insertHashes(
+  tx: Transaction,
+  fingerprintId: number,
+  parsed: ParsedFingerprint,
+  recordingId: number | null = null
+) {
+  // Legacy fingerprints have no landmarks to index
+  if (parsed.version === 1) return;
+
+  for (const landmarks of chunk(parsed.landmarks, HASH_BATCH_SIZE)) {
+    await tx.insert(fingerprintHashes).values(
+      landmarks.map((landmark) => ({
+        hash: landmark.hash,
+        fingerprintId,
+        recordingId,
+        anchorTime: landmark.anchorTime,
+      }))
+    );
+  }
+}
+
+export interface RegeneratedFingerprint {
+  fingerprint: string;
+  analysisSampleRate: number;
+  algorithmVersion: number;
+  algorithmParameters: string;
+}
+
+/**
+ * Swaps in a fingerprint regenerated from the stored audio, together with its hash index entries.
+ */
+export async function replaceFingerprint(
+  db: Database,
+  id: number,
+  regenerated: RegeneratedFingerprint
+) {
+  const parsed = parseFingerprintInput(regenerated.fingerprint);
+
+  await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(audioFingerprints)
+      .set({ ...regenerated, updatedAt: new Date() })
+      .where(eq(audioFingerprints.id, id))
+      .returning({ id: audioFingerprints.id });
+    if (updated.length === 0) throw notFound(id);
+
+    // Extra reference recordings keep their own hashes
+    await tx
+      .delete(fingerprintHashes)
+      .where(and(eq(fingerprintHashes.fingerprintId, id), isNull(fingerprintHashes.recordingId)));
+    await insertHashes(tx, id, parsed);
+  });
+}
+
+/**
+ * Returns the subset of the given content hashes that are already stored.
+ */
+export async function findExistingContentHashes(db: Database, contentHashes: string[]) {
+  const existing = new Set<string>();
+  for (const batch of chunk(contentHashes, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select({ contentHash: audioFingerprints.contentHash })
+      .from(audioFingerprints)
+      .where(inArray(audioFingerprints.contentHash, batch));
+    for (const row of rows) {
+      if (row.contentHash) existing.add(row.contentHash);
+    }
+  }
+  return existing;
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+async function setFingerprintTags(
+  db: Database | Transaction,
+  fingerprintId: number,
+  tags: string[]
+) {
+  const normalized = normalizeTags(tags);
+  await db.delete(fingerprintTags).where(eq(fingerprintTags.fingerprintId, fingerprintId));
+  if (normalized.length > 0) {
+    await db
+      .insert(fingerprintTags)
+      .values(normalized.map((tag) => ({ fingerprintId, tag })));
+  }
+  return normalized;
+}
+
+async function loadTags(db: Database, fingerprintIds: number[]) {
+  const tags = new Map<number, string[]>();
+  for (const ids of chunk(fingerprintIds, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select()
+      .from(fingerprintTags)
+      .where(inArray(fingerprintTags.fingerprintId, ids))
+      .orderBy(asc(fingerprintTags.tag));
+    for (const row of rows) {
+      tags.set(row.fingerprintId, [...(tags.get(row.fingerprintId) ?? []), row.tag]);
+    }
+  }
+  return tags;
+}
+
+function notFound(id: number): TRPCError {
+  return new TRPCError({ code: "NOT_FOUND", message: `Fingerprint ${id} does not exist` });
+}
+
+export async function getFingerprint(db: Database, id: number) {
+  const record = await db.query.audioFingerprints.findFirst({
+    where: eq(audioFingerprints.id, id),
+  });
+  if (!record) throw notFound(id);
+
+  const tags = await loadTags(db, [id]);
+  return { ...record, tags: tags.get(id) ?? [] };
+}
+
+export async function updateFingerprint(db: Database, id: number, changes: FingerprintChanges) {
+  return await db.transaction(async (tx) => {
+    const { tags, ...columns } = changes;
+    const [record] = await tx
+      .update(audioFingerprints)
+      .set({ ...columns, updatedAt: new Date() })
+      .where(eq(audioFingerprints.id, id))
+      .returning(fingerprintSummaryColumns);
+    if (!record) throw notFound(id);
+
+    const storedTags = tags
+      ? await setFingerprintTags(tx, id, tags)
+      : (
+          await tx
+            .select({ tag: fingerprintTags.tag })
+            .from(fingerprintTags)
+            .where(eq(fingerprintTags.fingerprintId, id))
+            .orderBy(asc(fingerprintTags.tag))
+        ).map((row) => row.tag);
+
+    return { ...record, tags: storedTags };
+  });
+}
+
+export async function deleteFingerprint(db: Database, id: number) {
+  const deleted = await db.transaction(async (tx) => {
+    // Dependent rows are removed explicitly, as SQLite only cascades with foreign keys enabled
+    await tx.delete(fingerprintHashes).where(eq(fingerprintHashes.fingerprintId, id));
+    await tx.delete(fingerprintTags).where(eq(fingerprintTags.fingerprintId, id));
+    await tx
+      .delete(duplicatePairs)
+      .where(or(eq(duplicatePairs.fingerprintId, id), eq(duplicatePairs.duplicateId, id)));
+    const recordings = await tx
+      .delete(referenceRecordings)
+      .where(eq(referenceRecordings.fingerprintId, id))
+      .returning({ audioFile: referenceRecordings.audioFile });
+    await tx
+      .update(identificationQueries)
+      .set({ topMatchId: null })
+      .where(eq(identificationQueries.topMatchId, id));
+    const [record] = await tx
+      .delete(audioFingerprints)
+      .where(eq(audioFingerprints.id, id))
+      .returning({ audioFile: audioFingerprints.audioFile });
+    if (!record) throw notFound(id);
+    return [record, ...recordings];
+  });
+
+  await Promise.all(
+    deleted.map(async ({ audioFile }) => {
+      if (audioFile) await deleteStoredAudio(audioFile);
+    })
+  );
+  return { id };
+}
+
+/**
+ * Stores the original audio of an existing fingerprint, replacing any audio it already had.
+ */
+export async function attachAudio(db: Database, id: number, audio: AudioFile) {
+  const existing = await db.query.audioFingerprints.findFirst({
+    columns: { audioFile: true },
+    where: eq(audioFingerprints.id, id),
+  });
+  if (!existing) throw notFound(id);
+
+  const stored = await storeAudio(audio);
+  const [record] = await db
+    .update(audioFingerprints)
+    .set({ audioFile: stored.file, audioMimeType: stored.mimeType, updatedAt: new Date() })
+    .where(eq(audioFingerprints.id, id))
+    .returning(fingerprintSummaryColumns);
+  if (!record) {
+    // Deleted in the meantime
+    await deleteStoredAudio(stored.file);
+    throw notFound(id);
+  }
+
+  if (existing.audioFile) await deleteStoredAudio(existing.audioFile);
+  return record;
+}
+
+/**
+ * Looks up where the original audio of a fingerprint is stored.
+ */
+export async function getFingerprintAudio(db: Database, id: number): Promise<StoredAudio> {
+  const record = await db.query.audioFingerprints.findFirst({
+    columns: { audioFile: true, audioMimeType: true },
+    where: eq(audioFingerprints.id, id),
+  });
+  if (!record) throw notFound(id);
+  if (!record.audioFile) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Fingerprint ${id} has no stored audio`,
+    });
+  }
+
+  return { file: record.audioFile, mimeType: record.audioMimeType ?? "application/octet-stream" };
+}
+
+function recordingNotFound(fingerprintId: number, recordingId: number): TRPCError {
+  return new TRPCError({
+    code: "NOT_FOUND",
+    message: `Fingerprint ${fingerprintId} has no reference recording ${recordingId}`,
+  });
+}
+
+// Every column of a reference recording except its fingerprint
+const recordingSummaryColumns = {
+  id: referenceRecordings.id,
+  fingerprintId: referenceRecordings.fingerprintId,
+  duration: referenceRecordings.duration,
+  sourceFilename: referenceRecordings.sourceFilename,
+  sampleRate: referenceRecordings.sampleRate,
+  channelCount: referenceRecordings.channelCount,
+  analysisSampleRate: referenceRecordings.analysisSampleRate,
+  channelStrategy: referenceRecordings.channelStrategy,
+  effectChain: referenceRecordings.effectChain,
+  contentHash: referenceRecordings.contentHash,
+  audioMimeType: referenceRecordings.audioMimeType,
+  algorithmVersion: referenceRecordings.algorithmVersion,
+  algorithmParameters: referenceRecordings.algorithmParameters,
+  createdAt: referenceRecordings.createdAt,
+};
+
+/**
+ * Adds a further recording to an existing entry. Its hashes are indexed under the entry, so queries
+ * that match the new recording identify the entry.
+ */
+export async function addReferenceRecording(
+  db: Database,
+  fingerprintId: number,
+  input: NewReferenceRecording
+) {
+  const parsed = parseFingerprintInput(input.fingerprint);
+  const stored = input.audio ? await storeAudio(input.audio) : null;
+
+  try {
+    return await db.transaction(async (tx) => {
+      const entry = await tx.query.audioFingerprints.findFirst({
+        columns: { id: true },
+        where: eq(audioFingerprints.id, fingerprintId),
+      });
+      if (!entry) throw notFound(fingerprintId);
+
+      const [recording] = await tx
+        .insert(referenceRecordings)
+        .values({
+          fingerprintId,
+          fingerprint: input.fingerprint,
+          duration: input.duration,
+          sourceFilename: input.sourceFilename,
+          sampleRate: input.sampleRate,
+          channelCount: input.channelCount,
+          analysisSampleRate: input.analysisSampleRate,
+          channelStrategy: input.channelStrategy,
+          effectChain: input.effectChain,
+          contentHash: input.contentHash,
+          algorithmVersion: input.algorithmVersion,
+          algorithmParameters: input.algorithmParameters,
+          audioFile: stored?.file,
+          audioMimeType: stored?.mimeType,
+        })
+        .returning(recordingSummaryColumns);
+      if (!recording) throw new Error("Failed to insert reference recording");
+
+      await insertHashes(tx, fingerprintId, parsed, recording.id);
+      await tx
+        .update(audioFingerprints)
+        .set({ updatedAt: new Date() })
+        .where(eq(audioFingerprints.id, fingerprintId));
+      return recording;
+    });
+  } catch (error) {
+    if (stored) await deleteStoredAudio(stored.file);
+    throw error;
+  }
+}
+
+/**
+ * Stores the original audio of a reference recording, replacing any audio it already had.
+ */
+export async function attachRecordingAudio(
+  db: Database,
+  fingerprintId: number,
+  recordingId: number,
+  audio: AudioFile
+) {
+  const belongsToEntry = and(
+    eq(referenceRecordings.id, recordingId),
+    eq(referenceRecordings.fingerprintId, fingerprintId)
+  );
+  const existing = await db.query.referenceRecordings.findFirst({
+    columns: { audioFile: true },
+    where: belongsToEntry,
+  });
+  if (!existing) throw recordingNotFound(fingerprintId, recordingId);
+
+  const stored = await storeAudio(audio);
+  const [recording] = await db
+    .update(referenceRecordings)
+    .set({ audioFile: stored.file, audioMimeType: stored.mimeType })
+    .where(belongsToEntry)
+    .returning(recordingSummaryColumns);
+  if (!recording) {
+    // Deleted in the meantime
+    await deleteStoredAudio(stored.file);
+    throw recordingNotFound(fingerprintId, recordingId);
+  }
+
+  if (existing.audioFile) await deleteStoredAudio(existing.audioFile);
+  return recording;
+}
+
+/**
+ * Swaps in a reference recording's fingerprint regenerated from its stored audio, together with its
+ * hash index entries.
+ */
+export async function replaceRecordingFingerprint(
+  db: Database,
+  fingerprintId: number,
+  recordingId: number,
+  regenerated: RegeneratedFingerprint
+) {
+  const parsed = parseFingerprintInput(regenerated.fingerprint);
+
+  await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(referenceRecordings)
+      .set(regenerated)
+      .where(
+        and(
+          eq(referenceRecordings.id, recordingId),
+          eq(referenceRecordings.fingerprintId, fingerprintId)
+        )
+      )
+      .returning({ id: referenceRecordings.id });
+    if (updated.length === 0) throw recordingNotFound(fingerprintId, recordingId);
+
+    await tx.delete(fingerprintHashes).where(eq(fingerprintHashes.recordingId, recordingId));
+    await insertHashes(tx, fingerprintId, parsed, recordingId);
+  });
+}
+
+/**
+ * Looks up where the original audio of a reference recording is stored.
+ */
+export async function getRecordingAudio(
+  db: Database,
+  fingerprintId: number,
+  recordingId: number
+): Promise<StoredAudio> {
+  const recording = await db.query.referenceRecordings.findFirst({
+    columns: { audioFile: true, audioMimeType: true },
+    where: and(
+      eq(referenceRecordings.id, recordingId),
+      eq(referenceRecordings.fingerprintId, fingerprintId)
+    ),
+  });
+  if (!recording) throw recordingNotFound(fingerprintId, recordingId);
+  if (!recording.audioFile) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Reference recording ${recordingId} has no stored audio`,
+    });
+  }
+
+  return {
+    file: recording.audioFile,
+    mimeType: recording.audioMimeType ?? "application/octet-stream",
+  };
+}
+
+/**
+ * Removes an extra reference recording from its entry, with its hashes and stored audio.
+ */
+export async function deleteReferenceRecording(
+  db: Database,
+  fingerprintId: number,
+  recordingId: number
+) {
+  const recording = await db.transaction(async (tx) => {
+    const [deleted] = await tx
+      .delete(referenceRecordings)
+      .where(
+        and(
+          eq(referenceRecordings.id, recordingId),
+          eq(referenceRecordings.fingerprintId, fingerprintId)
+        )
+      )
+      .returning({ audioFile: referenceRecordings.audioFile });
+    if (!deleted) throw recordingNotFound(fingerprintId, recordingId);
+
+    // Hashes are removed explicitly, as SQLite only cascades with foreign keys enabled
+    await tx.delete(fingerprintHashes).where(eq(fingerprintHashes.recordingId, recordingId));
+    await tx
+      .update(audioFingerprints)
+      .set({ updatedAt: new Date() })
+      .where(eq(audioFingerprints.id, fingerprintId));
+    return deleted;
+  });
+
+  if (recording.audioFile) await deleteStoredAudio(recording.audioFile);
+  return { id: recordingId };
+}
+
+/**
+ * Folds a duplicate entry into another: its fingerprint and audio become an extra reference
+ * recording of the target, its own recordings, tags and query history move over, and the entry
+ * itself is removed. The target keeps its name, description and category.
+ */
+export async function mergeFingerprints(db: Database, targetId: number, sourceId: number) {
+  if (targetId === sourceId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot merge an entry into itself" });
+  }
+
+  return await db.transaction(async (tx) => {
+    const target = await tx.query.audioFingerprints.findFirst({
+      columns: { id: true },
+      where: eq(audioFingerprints.id, targetId),
+    });
+    if (!target) throw notFound(targetId);
+    const source = await tx.query.audioFingerprints.findFirst({
+      where: eq(audioFingerprints.id, sourceId),
+    });
+    if (!source) throw notFound(sourceId);
+
+    const [recording] = await tx
+      .insert(referenceRecordings)
+      .values({
+        fingerprintId: targetId,
+        fingerprint: source.fingerprint,
+        duration: source.duration,
+        sourceFilename: source.sourceFilename,
+        sampleRate: source.sampleRate,
+        channelCount: source.channelCount,
+        analysisSampleRate: source.analysisSampleRate,
+        channelStrategy: source.channelStrategy,
+        effectChain: source.effectChain,
+        contentHash: source.contentHash,
+        algorithmVersion: source.algorithmVersion,
+        algorithmParameters: source.algorithmParameters,
+        audioFile: source.audioFile,
+        audioMimeType: source.audioMimeType,
+      })
+      .returning(recordingSummaryColumns);
+    if (!recording) throw new Error("Failed to insert reference recording");
+
+    // The source's own hashes now belong to the new recording; those of its extra recordings keep
+    // their recording ids
+    await tx
+      .update(fingerprintHashes)
+      .set({ fingerprintId: targetId, recordingId: recording.id })
+      .where(
+        and(eq(fingerprintHashes.fingerprintId, sourceId), isNull(fingerprintHashes.recordingId))
+      );
+    await tx
+      .update(fingerprintHashes)
+      .set({ fingerprintId: targetId })
+      .where(eq(fingerprintHashes.fingerprintId, sourceId));
+    await tx
+      .update(referenceRecordings)
+      .set({ fingerprintId: targetId })
+      .where(eq(referenceRecordings.fingerprintId, sourceId));
+
+    const sourceTags = await tx
+      .delete(fingerprintTags)
+      .where(eq(fingerprintTags.fingerprintId, sourceId))
+      .returning({ tag: fingerprintTags.tag });
+    if (sourceTags.length > 0) {
+      await tx
+        .insert(fingerprintTags)
+        .values(sourceTags.map(({ tag }) => ({ fingerprintId: targetId, tag })))
+        .onConflictDoNothing();
+    }
+
+    await tx
+      .update(identificationQueries)
+      .set({ topMatchId: targetId })
+      .where(eq(identificationQueries.topMatchId, sourceId));
+
+    // Pairs found by duplicate scans now connect the target, so the rest of its cluster stays
+    // together; a pair between the two merged entries disappears
+    const pairs = await tx
+      .delete(duplicatePairs)
+      .where(
+        or(eq(duplicatePairs.fingerprintId, sourceId), eq(duplicatePairs.duplicateId, sourceId))
+      )
+      .returning();
+    const remap = (id: number) => (id === sourceId ? targetId : id);
+    const remapped = pairs.flatMap((pair) => {
+      const a = remap(pair.fingerprintId);
+      const b = remap(pair.duplicateId);
+      return a === b
+        ? []
+        : [{ ...pair, fingerprintId: Math.min(a, b), duplicateId: Math.max(a, b) }];
+    });
+    if (remapped.length > 0) {
+      await tx.insert(duplicatePairs).values(remapped).onConflictDoNothing();
+    }
+
+    await tx.delete(audioFingerprints).where(eq(audioFingerprints.id, sourceId));
+    await tx
+      .update(audioFingerprints)
+      .set({ updatedAt: new Date() })
+      .where(eq(audioFingerprints.id, targetId));
+    return recording;
+  });
+}
+
+function matchesQuery(db: Database, query: string): SQL {
+  const pattern = `%${query}%`;
+  const taggedWithQuery = db
+    .select({ fingerprintId: fingerprintTags.fingerprintId })
+    .from(fingerprintTags)
+    .where(like(fingerprintTags.tag, pattern));
+  return or(like(audioFingerprints.name, pattern), inArray(audioFingerprints.id, taggedWithQuery))!;
+}
+
+export async function searchFingerprints(db: Database, search: FingerprintSearch) {
+  const conditions: SQL[] = [];
+  const tags = normalizeTags(search.tags ?? []);
+
+  if (tags.length > 0) {
+    const tagged = db
+      .select({ fingerprintId: fingerprintTags.fingerprintId })
+      .from(fingerprintTags)
+      .where(inArray(fingerprintTags.tag, tags))
+      .groupBy(fingerprintTags.fingerprintId);
+    conditions.push(
+      inArray(
+        audioFingerprints.id,
+        search.matchAllTags
+          ? tagged.having(sql`count(distinct ${fingerprintTags.tag}) = ${tags.length}`)
+          : tagged
+      )
+    );
+  }
+
+  if (search.category) {
+    conditions.push(eq(audioFingerprints.category, search.category));
+  }
+
+  if (search.query?.trim()) {
+    conditions.push(matchesQuery(db, search.query.trim()));
+  }
+
+  const records = await db
+    .select(fingerprintSummaryColumns)
+    .from(audioFingerprints)
+    .where(and(...conditions))
+    .orderBy(asc(audioFingerprints.name), asc(audioFingerprints.id))
+    .limit(search.limit)
+    .offset(search.offset);
+
+  const recordTags = await loadTags(db, records.map((record) => record.id));
+  return records.map((record) => ({ ...record, tags: recordTags.get(record.id) ?? [] }));
+}
+
+/**
+ * Every channel strategy the library's fingerprints and reference recordings were made with.
+ */
+export async function listChannelStrategies(db: Database): Promise<string[]> {
+  const legacy = formatChannelStrategy(LEGACY_CHANNEL_STRATEGY);
+  const rows = [
+    ...(await db
+      .selectDistinct({ channelStrategy: audioFingerprints.channelStrategy })
+      .from(audioFingerprints)),
+    ...(await db
+      .selectDistinct({ channelStrategy: referenceRecordings.channelStrategy })
+      .from(referenceRecordings)),
+  ];
+  return [...new Set(rows.map((row) => row.channelStrategy ?? legacy))];
+}
+
+export async function identifyFingerprint(
+  db: Database,
+  input: IdentifyOptions
+): Promise<AudioMatch[]> {
+  const query = parseFingerprintInput(input.fingerprint);
+  const isExcluded = (id: number) => id === input.excludeId;
+  let scores: MatchScores;
+  let queryDuration: number;
+
+  if (query.version === 1) {
+    // Legacy queries carry no hashes, so they can only be compared against every record
+    scores = { comparisons: new Map(), matchedRecordings: new Map() };
+    queryDuration = Math.max(0, ...query.features.timestamps);
+    const allFingerprints = await db.select().from(audioFingerprints);
+    for (const record of allFingerprints) {
+      if (isExcluded(record.id)) continue;
+      scores.comparisons.set(record.id, compareFingerprints(input.fingerprint, record.fingerprint));
+    }
+  } else {
+    const queryLandmarks = parseQueryLandmarks(query.landmarks, input.strategyFingerprints);
+    if (input.scaleSearch) {
+      scores = await scoreRescaledQuery(db, queryLandmarks, input.scaleSearch, input.excludeId);
+    } else {
+      const candidates = await findCandidates(db, queryLandmarks, input.excludeId);
+      scores = scoreCandidates(
+        queryLandmarks,
+        candidates,
+        await loadReferenceStrategies(db, queryLandmarks, [...candidates.keys()])
+      );
+    }
+    queryDuration = Math.max(
+      ...[query.landmarks, ...queryLandmarks.byStrategy.values()].map(landmarkSpanSeconds)
+    );
+
+    // Legacy records aren't in the hash index. Their fingerprints start with a digit, while
+    // versioned ones start with "v", so this range condition can use the fingerprint index.
+    const legacyFingerprints = await db
+      .select()
+      .from(audioFingerprints)
+      .where(lt(audioFingerprints.fingerprint, "v"));
+    for (const record of legacyFingerprints) {
+      if (isExcluded(record.id)) continue;
+      scores.comparisons.set(record.id, compareFingerprints(input.fingerprint, record.fingerprint));
+    }
+  }
+
+  const librarySize = (await countLibrary(db)) - (input.excludeId === undefined ? 0 : 1);
+  return await rankMatches(db, input, scores, queryDuration, Math.max(0, librarySize));
+}
+
+export interface TimelineOptions extends Omit<IdentifyOptions, "excludeId" | "scaleSearch"> {
+  /** Length of the windows the query is identified in, in seconds. */
+  segmentSeconds?: number;
+  /** Seconds between the starts of consecutive windows. */
+  hopSeconds?: number;
+}
+
+// Windows as long as the benchmark's default queries, overlapping by half so a sound is never only
+// split across two of them
+const DEFAULT_SEGMENT_SECONDS = 5;
+const DEFAULT_HOP_SECONDS = 2.5;
+
+// How far apart the alignments of two window matches can be while still being the same occurrence
+// of a sound: a couple of offset clusters
+const DETECTION_OFFSET_TOLERANCE = 2 * OFFSET_CLUSTER_BINS * OFFSET_BIN_SECONDS;
+
+/**
+ * Identifies a long query window by window and returns every sound it contains, with where it
+ * starts and ends in the query. Matches of the same recording at the same alignment in
+ * neighbouring windows are joined into one detection. Legacy fingerprints carry no landmark times,
+ * so legacy queries are rejected and legacy references are never detected.
+ */
+export async function identifyTimeline(
+  db: Database,
+  input: TimelineOptions
+): Promise<TimelineDetection[]> {
+  const query = parseFingerprintInput(input.fingerprint);
+  if (query.version === 1) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Legacy fingerprints have no landmark times to build a timeline from",
+    });
+  }
+
+  const {
+    segmentSeconds = DEFAULT_SEGMENT_SECONDS,
+    hopSeconds = DEFAULT_HOP_SECONDS,
+    maxFalsePositiveRate = 1,
+  } = input;
+  const queryLandmarks = parseQueryLandmarks(query.landmarks, input.strategyFingerprints);
+  // Windows start at the same times whatever the landmarks, so the windows of each of the query's
+  // fingerprints line up by index. Sound that cancels out in the mono sum can leave it shorter
+  const segments = segmentLandmarks(query.landmarks, segmentSeconds, hopSeconds);
+  const strategySegments = new Map(
+    [...queryLandmarks.byStrategy].map(([strategy, landmarks]) => [
+      strategy,
+      segmentLandmarks(landmarks, segmentSeconds, hopSeconds),
+    ])
+  );
+  const windowCount = Math.max(
+    segments.length,
+    ...[...strategySegments.values()].map((windows) => windows.length)
+  );
+  // Every window is a chance for a false positive, so rates cover the whole query and the threshold
+  // is split between the windows
+  const windowOptions = { ...input, maxFalsePositiveRate: maxFalsePositiveRate / windowCount };
+  // Windows are scored against the candidates of the whole query, found with a single lookup
+  const candidates = await findCandidates(db, queryLandmarks);
+  const strategies = await loadReferenceStrategies(db, queryLandmarks, [...candidates.keys()]);
+  const librarySize = await countLibrary(db);
+
+  // Detections so far, also grouped by entry to find the one a window match extends
+  const byEntry = new Map<number, (TimelineDetection & { alignment: number })[]>();
+  const detections: (TimelineDetection & { alignment: number })[] = [];
+  for (let index = 0; index < windowCount; index++) {
+    const window = {
+      landmarks: segments[index]?.landmarks ?? [],
+      byStrategy: new Map(
+        [...strategySegments].map(([strategy, windows]) => [
+          strategy,
+          windows[index]?.landmarks ?? [],
+        ])
+      ),
+    };
+    const windowLandmarks = [window.landmarks, ...window.byStrategy.values()];
+    if (windowLandmarks.every((landmarks) => landmarks.length === 0)) continue;
+
+    const scores = scoreCandidates(window, candidates, strategies);
+    const windowMatches = await rankMatches(
+      db,
+      windowOptions,
+      scores,
+      Math.max(...windowLandmarks.map(landmarkSpanSeconds)),
+      librarySize
+    );
+
+    for (const windowMatch of windowMatches) {
+      const falsePositiveRate = Math.min(1, windowMatch.falsePositiveRate * windowCount);
+      const match = { ...windowMatch, falsePositiveRate, confidence: 1 - falsePositiveRate };
+      const span = scores.comparisons.get(match.id)?.alignedQuerySpan;
+      if (!span) continue;
+
+      const entryDetections = byEntry.get(match.id) ?? [];
+      const existing = entryDetections.find(
+        (detection) =>
+          detection.recordingId === match.recordingId &&
+          Math.abs(detection.alignment - match.offsetSeconds) <= DETECTION_OFFSET_TOLERANCE &&
+          span.start <= detection.endSeconds + segmentSeconds
+      );
+      if (!existing) {
+        const detection = {
+          ...match,
+          startSeconds: span.start,
+          endSeconds: span.end,
+          alignment: match.offsetSeconds,
+        };
+        entryDetections.push(detection);
+        byEntry.set(match.id, entryDetections);
+        detections.push(detection);
+        continue;
+      }
+
+      existing.startSeconds = Math.min(existing.startSeconds, span.start);
+      existing.endSeconds = Math.max(existing.endSeconds, span.end);
+      if (match.falsePositiveRate < existing.falsePositiveRate) {
+        Object.assign(existing, match, { alignment: match.offsetSeconds });
+      }
+    }
+  }
+
+  return detections
+    .map(({ alignment, ...detection }) => ({
+      ...detection,
+      offsetSeconds: alignment + detection.startSeconds,
+    }))
+    .sort((a, b) => a.startSeconds - b.startSeconds || a.falsePositiveRate - b.falsePositiveRate);
+}
+
+/** Comparisons of the query with each entry it was scored against. */
+interface MatchScores {
+  comparisons: Map<number, FingerprintComparison>;
+  // Entries whose best match is an extra reference recording rather than their own fingerprint
+  matchedRecordings: Map<number, number>;
+  // Playback scale each entry matched best at, and how many scales were tried, when the query was
+  // searched at several
+  scales?: { best: Map<number, PlaybackScale>; searched: number };
+}
+
+/** A query's landmarks, with those of the other channel strategies it was fingerprinted with. */
+interface QueryLandmarks {
+  landmarks: Landmark[];
+  byStrategy: Map<string, Landmark[]>;
+}
+
+/** Formatted channel strategy of each candidate entry's recordings, by recording id. */
+type ReferenceStrategies = Map<number, Map<number | null, string>>;
+
+function parseQueryLandmarks(
+  landmarks: Landmark[],
+  strategyFingerprints: Record<string, string> = {}
+): QueryLandmarks {
+  const byStrategy = new Map<string, Landmark[]>();
+  for (const [strategy, fingerprint] of Object.entries(strategyFingerprints)) {
+    const parsed = parseFingerprintInput(fingerprint);
+    if (parsed.version === 1) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `The ${strategy} fingerprint of the query is a legacy fingerprint`,
+      });
+    }
+    byStrategy.set(strategy, parsed.landmarks);
+  }
+  return { landmarks, byStrategy };
+}
+
+/**
+ * The query fingerprint a recording is compared with: the one made with its own strategy if the
+ * query has one, otherwise the `IDENTIFY_CHANNEL_STRATEGY` one.
+ */
+function selectQuery<T>(
+  queries: { landmarks: T; byStrategy: Map<string, T> },
+  strategies: ReferenceStrategies,
+  id: number,
+  recordingId: number | null
+): T {
+  const strategy = strategies.get(id)?.get(recordingId);
+  const selected = strategy === undefined ? undefined : queries.byStrategy.get(strategy);
+  return selected ?? queries.landmarks;
+}
+
+/**
+ * Looks up the channel strategies the given entries and their recordings were made with. Only
+ * needed when the query was fingerprinted with more than one.
+ */
+async function loadReferenceStrategies(
+  db: Database,
+  query: QueryLandmarks,
+  ids: number[]
+): Promise<ReferenceStrategies> {
+  const strategies: ReferenceStrategies = new Map();
+  if (query.byStrategy.size === 0) return strategies;
+
+  const legacy = formatChannelStrategy(LEGACY_CHANNEL_STRATEGY);
+  const add = (id: number, recordingId: number | null, strategy: string | null) => {
+    const recordings = strategies.get(id) ?? new Map<number | null, string>();
+    recordings.set(recordingId, strategy ?? legacy);
+    strategies.set(id, recordings);
+  };
+  for (const batch of chunk(ids, HASH_BATCH_SIZE)) {
+    const entries = await db
+      .select({ id: audioFingerprints.id, channelStrategy: audioFingerprints.channelStrategy })
+      .from(audioFingerprints)
+      .where(inArray(audioFingerprints.id, batch));
+    for (const entry of entries) add(entry.id, null, entry.channelStrategy);
+
+    const recordings = await db
+      .select({
+        id: referenceRecordings.id,
+        fingerprintId: referenceRecordings.fingerprintId,
+        channelStrategy: referenceRecordings.channelStrategy,
+      })
+      .from(referenceRecordings)
+      .where(inArray(referenceRecordings.fingerprintId, batch));
+    for (const recording of recordings) {
+      add(recording.fingerprintId, recording.id, recording.channelStrategy);
+    }
+  }
+  return strategies;
+}
+
+async function countLibrary(db: Database) {
+  const [library] = await db.select({ size: count() }).from(audioFingerprints);
+  return library?.size ?? 0;
+}
+
+/**
+ * Collects the landmarks of every recording that shares at least one hash with any of the query's
+ * fingerprints, grouped by entry. Recordings are kept apart since each has its own timeline.
+ */
+async function findCandidates(db: Database, query: QueryLandmarks, excludeId?: number) {
+  const candidates = new Map<number, Map<number | null, Landmark[]>>();
+  const hashes = [
+    ...new Set(
+      [query.landmarks, ...query.byStrategy.values()].flatMap((landmarks) =>
+        landmarks.map((landmark) => landmark.hash)
+      )
+    ),
+  ];
+  for (const batch of chunk(hashes, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select()
+      .from(fingerprintHashes)
+      .where(inArray(fingerprintHashes.hash, batch));
+    for (const row of rows) {
+      if (row.fingerprintId === excludeId) continue;
+      const recordings = candidates.get(row.fingerprintId) ?? new Map<number | null, Landmark[]>();
+      const recordingLandmarks = recordings.get(row.recordingId) ?? [];
+      recordingLandmarks.push({ hash: row.hash, anchorTime: row.anchorTime });
+      recordings.set(row.recordingId, recordingLandmarks);
+      candidates.set(row.fingerprintId, recordings);
+    }
+  }
+  return candidates;
+}
+
+function scoreCandidates(
+  query: QueryLandmarks,
+  candidates: Map<number, Map<number | null, Landmark[]>>,
+  strategies: ReferenceStrategies
+): MatchScores {
+  const scores: MatchScores = { comparisons: new Map(), matchedRecordings: new Map() };
+
+  // An entry scores as well as its best recording
+  for (const [id, recordings] of candidates) {
+    for (const [recordingId, recordingLandmarks] of recordings) {
+      const comparison = compareLandmarks(
+        selectQuery(query, strategies, id, recordingId),
+        recordingLandmarks
+      );
+      if (comparison.alignedHashCount <= (scores.comparisons.get(id)?.alignedHashCount ?? -1)) {
+        continue;
+      }
+
+      scores.comparisons.set(id, comparison);
+      if (recordingId === null) scores.matchedRecordings.delete(id);
+      else scores.matchedRecordings.set(id, recordingId);
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Scores the query at every playback scale in the search range. The hash index only finds exact
+ * matches, so it is used to pick the entries that share the most hashes with the rescaled query,
+ * whose landmarks are then loaded and compared in full.
+ */
+async function scoreRescaledQuery(
+  db: Database,
+  query: QueryLandmarks,
+  scaleSearch: NonNullable<IdentifyOptions["scaleSearch"]>,
+  excludeId?: number
+): Promise<MatchScores> {
+  const grid = scaleSearchGrid(scaleSearch.maxPitchChange, scaleSearch.maxTempoChange);
+  const rescale = (landmarks: Landmark[]) =>
+    grid.map((scale) => ({ scale, landmarks: rescaleLandmarks(landmarks, scale) }));
+  const queries = {
+    landmarks: rescale(query.landmarks),
+    byStrategy: new Map(
+      [...query.byStrategy].map(([strategy, landmarks]) => [strategy, rescale(landmarks)])
+    ),
+  };
+
+  const sharedHashes = new Map<number, number>();
+  const hashes = [
+    ...new Set(
+      [queries.landmarks, ...queries.byStrategy.values()].flatMap((rescaled) =>
+        rescaled.flatMap((scaled) => scaled.landmarks.map((landmark) => landmark.hash))
+      )
+    ),
+  ];
+  for (const batch of chunk(hashes, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select({ fingerprintId: fingerprintHashes.fingerprintId })
+      .from(fingerprintHashes)
+      .where(inArray(fingerprintHashes.hash, batch));
+    for (const { fingerprintId } of rows) {
+      if (fingerprintId === excludeId) continue;
+      sharedHashes.set(fingerprintId, (sharedHashes.get(fingerprintId) ?? 0) + 1);
+    }
+  }
+  const shortlist = [...sharedHashes]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, SCALE_SEARCH_CANDIDATES)
+    .map(([id]) => id);
+
+  const candidates = new Map<number, Map<number | null, Landmark[]>>();
+  for (const ids of chunk(shortlist, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select()
+      .from(fingerprintHashes)
+      .where(inArray(fingerprintHashes.fingerprintId, ids));
+    for (const row of rows) {
+      const recordings = candidates.get(row.fingerprintId) ?? new Map<number | null, Landmark[]>();
+      const recordingLandmarks = recordings.get(row.recordingId) ?? [];
+      recordingLandmarks.push({ hash: row.hash, anchorTime: row.anchorTime });
+      recordings.set(row.recordingId, recordingLandmarks);
+      candidates.set(row.fingerprintId, recordings);
+    }
+  }
+
+  const strategies = await loadReferenceStrategies(db, query, shortlist);
+  const bestScales = new Map<number, PlaybackScale>();
+  const scores: MatchScores = {
+    comparisons: new Map(),
+    matchedRecordings: new Map(),
+    scales: { best: bestScales, searched: grid.length },
+  };
+  for (const [id, recordings] of candidates) {
+    for (const [recordingId, recordingLandmarks] of recordings) {
+      const match = compareRescaledLandmarks(
+        selectQuery(queries, strategies, id, recordingId),
+        recordingLandmarks
+      );
+      if (
+        !match ||
+        match.comparison.alignedHashCount <= (scores.comparisons.get(id)?.alignedHashCount ?? -1)
+      ) {
+        continue;
+      }
+
+      scores.comparisons.set(id, match.comparison);
+      bestScales.set(id, match.scale);
+      if (recordingId === null) scores.matchedRecordings.delete(id);
+      else scores.matchedRecordings.set(id, recordingId);
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Turns the comparisons of a query into matches: estimates how likely each is to be chance, drops
+ * those over the thresholds and orders the rest from strongest to weakest.
+ */
+async function rankMatches(
+  db: Database,
+  input: IdentifyOptions,
+  scores: MatchScores,
+  queryDuration: number,
+  librarySize: number
+): Promise<AudioMatch[]> {
+  const { comparisons, matchedRecordings, scales } = scores;
+  const { minSimilarity = 0, maxFalsePositiveRate = 1 } = input;
+  const baseline = createChanceBaseline(
+    librarySize,
+    [...comparisons.values()].map((comparison) => comparison.alignedHashCount)
+  );
+
+  const matchingIds = [...comparisons]
+    .filter(
+      ([, comparison]) => comparison.alignedHashCount > 0 && comparison.similarity >= minSimilarity
+    )
+    .map(([id]) => id);
+  const recordings = await loadMatchedRecordings(
+    db,
+    matchingIds.flatMap((id) => matchedRecordings.get(id) ?? [])
+  );
+  const matches: AudioMatch[] = [];
+  for (const ids of chunk(matchingIds, HASH_BATCH_SIZE)) {
+    const records = await db
+      .select({
+        id: audioFingerprints.id,
+        name: audioFingerprints.name,
+        duration: audioFingerprints.duration,
+        audioFile: audioFingerprints.audioFile,
+        algorithmVersion: audioFingerprints.algorithmVersion,
+        algorithmParameters: audioFingerprints.algorithmParameters,
+      })
+      .from(audioFingerprints)
+      .where(inArray(audioFingerprints.id, ids));
+    for (const entry of records) {
+      const comparison = comparisons.get(entry.id);
+      if (!comparison) continue;
+
+      // Offsets, duration, audio and algorithm are those of the recording that matched
+      const recordingId = matchedRecordings.get(entry.id) ?? null;
+      const recording = recordingId === null ? undefined : recordings.get(recordingId);
+      const { audioFile, algorithmVersion, algorithmParameters, ...record } = {
+        ...entry,
+        ...recording,
+      };
+
+      const stale = !isCurrentAlgorithm({ algorithmVersion, algorithmParameters });
+      if (stale && input.staleReferences === "exclude") continue;
+
+      const similarity = stale ? comparison.similarity * STALE_MATCH_WEIGHT : comparison.similarity;
+      const chanceRate = estimateFalsePositiveRate(
+        {
+          alignedHashCount: comparison.alignedHashCount,
+          hashMatchCount: comparison.hashMatchCount,
+          queryDuration,
+          referenceDuration: record.duration,
+        },
+        baseline
+      );
+      // Each scale searched is another chance for a false positive
+      const searchedRate = chanceRate * (scales?.searched ?? 1);
+      const falsePositiveRate = Math.min(
+        1,
+        stale ? searchedRate / STALE_MATCH_WEIGHT : searchedRate
+      );
+      if (similarity < minSimilarity || falsePositiveRate > maxFalsePositiveRate) continue;
+
+      matches.push({
+        id: record.id,
+        name: record.name,
+        duration: record.duration,
+        recordingId,
+        hasAudio: audioFile !== null,
+        stale,
+        similarity,
+        offsetSeconds: comparison.offsetSeconds,
+        alignedHashCount: comparison.alignedHashCount,
+        falsePositiveRate,
+        confidence: 1 - falsePositiveRate,
+        scale: scales?.best.get(entry.id) ?? null,
+      });
+    }
+  }
+
+  // Rates of strong matches all underflow to zero, so ties fall back to the evidence behind them
+  matches.sort(
+    (a, b) =>
+      a.falsePositiveRate - b.falsePositiveRate ||
+      b.alignedHashCount - a.alignedHashCount ||
+      b.similarity - a.similarity
+  );
+
+  return matches;
+}
+
+async function loadMatchedRecordings(db: Database, ids: number[]) {
+  const recordings = new Map<
+    number,
+    {
+      duration: number;
+      audioFile: string | null;
+      algorithmVersion: number | null;
+      algorithmParameters: string | null;
+    }
+  >();
+  for (const batch of chunk(ids, HASH_BATCH_SIZE)) {
+    const rows = await db
+      .select({
+        id: referenceRecordings.id,
+        duration: referenceRecordings.duration,
+        audioFile: referenceRecordings.audioFile,
+        algorithmVersion: referenceRecordings.algorithmVersion,
+        algorithmParameters: referenceRecordings.algorithmParameters,
+      })
+      .from(referenceRecordings)
+      .where(inArray(referenceRecordings.id, batch));
+    for (const { id, ...recording } of rows) recordings.set(id, recording);
+  }
+  return recordings;
+}
+
+/**
+ * One page of the library, ordered by the given column with the id as a tie-breaker. Pages are
+ * keyed on the last row rather than an offset, so rows added or deleted meanwhile don't shift
+ * later pages.
+ */
+export async function listFingerprints(db: Database, list: FingerprintList) {
+  const column = audioFingerprints[list.sort];
+  const conditions: SQL[] = [];
+
+  if (list.query?.trim()) {
+    conditions.push(matchesQuery(db, list.query.trim()));
+  }
+
+  if (list.cursor) {
+    // Compared as stored, bypassing the column's mapping: rows enrolled before timestamps were
+    // epoch seconds hold text until `convertLegacyTimestamps` runs, which maps to an invalid date
+    const { value, id } = list.cursor;
+    const after = list.order === "asc" ? sql`>` : sql`<`;
+    conditions.push(
+      or(
+        sql`${column} ${after} ${value}`,
+        and(sql`${column} = ${value}`, sql`${audioFingerprints.id} ${after} ${id}`)
+      )!
+    );
+  }
+
+  const orderBy = list.order === "asc" ? asc : desc;
+  const records = await db
+    .select({ ...fingerprintSummaryColumns, sortValue: sql<string | number>`${column}` })
+    .from(audioFingerprints)
+    .where(and(...conditions))
+    .orderBy(orderBy(column), orderBy(audioFingerprints.id))
+    // One extra row tells whether there is another page
+    .limit(list.limit + 1);
+
+  const page = records.slice(0, list.limit);
+  const last = page[page.length - 1];
+  const nextCursor: FingerprintCursor | null =
+    records.length > list.limit && last ? { value: last.sortValue, id: last.id } : null;
+
+  const recordTags = await loadTags(db, page.map((record) => record.id));
+  return {
+    items: page.map(({ sortValue: _, ...record }) => ({
+      ...record,
+      tags: recordTags.get(record.id) ?? [],
+    })),
+    nextCursor,
+  };
+}
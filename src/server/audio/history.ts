@@ -0,0 +1,134 @@
+/**
+ * Log of identification queries and the analytics built from it, used to tell whether recognition
+ * gets better or worse as the algorithm is tuned.
+ */
+
+import { and, asc, avg, count, desc, eq, gte, isNotNull, sql } from "drizzle-orm";
+
+import { ALGORITHM_VERSION } from "~/lib/audio";
+import { percentile } from "~/lib/utils";
+import { type db as database } from "~/server/db";
+import { audioFingerprints, identificationQueries } from "~/server/db/schema";
+import { type AudioMatch } from "~/types/audio";
+import { identifyFingerprint, type IdentifyOptions } from "./fingerprints";
+
+type Database = typeof database;
+
+export type IdentificationSource = (typeof identificationQueries.$inferInsert)["source"];
+
+export interface IdentificationContext {
+  source: IdentificationSource;
+  /** Seconds of audio in the query. */
+  queryDuration?: number;
+}
+
+const MOST_MATCHED_LIMIT = 10;
+
+/**
+ * Runs an identification and logs it. A failure to log is reported but never fails the
+ * identification itself.
+ */
+export async function identifyAndRecord(
+  db: Database,
+  input: IdentifyOptions,
+  context: IdentificationContext
+): Promise<AudioMatch[]> {
+  const started = performance.now();
+  const matches = await identifyFingerprint(db, input);
+  const latencyMs = performance.now() - started;
+
+  const [topMatch] = matches;
+  try {
+    await db.insert(identificationQueries).values({
+      source: context.source,
+      queryDuration: context.queryDuration,
+      matched: topMatch !== undefined,
+      matchCount: matches.length,
+      topMatchId: topMatch?.id,
+      topSimilarity: topMatch?.similarity,
+      latencyMs,
+      algorithmVersion: ALGORITHM_VERSION,
+    });
+  } catch (error) {
+    console.error("❌ Failed to record identification query:", error);
+  }
+
+  return matches;
+}
+
+// SQLite averages come back as strings, or null when every value was null
+function toAverage(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+export async function getIdentificationAnalytics(db: Database, days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const inRange = gte(identificationQueries.createdAt, since);
+  const noMatches = sql<number>`sum(case when ${identificationQueries.matched} then 0 else 1 end)`;
+
+  const [totals] = await db
+    .select({ queries: count(), noMatches })
+    .from(identificationQueries)
+    .where(inRange);
+
+  const day = sql<string>`strftime('%Y-%m-%d', ${identificationQueries.createdAt}, 'unixepoch')`;
+  const daily = await db
+    .select({ day, queries: count(), noMatches })
+    .from(identificationQueries)
+    .where(inRange)
+    .groupBy(day)
+    .orderBy(asc(day));
+
+  const mostMatched = await db
+    .select({
+      id: audioFingerprints.id,
+      name: audioFingerprints.name,
+      matches: count(),
+      averageSimilarity: avg(identificationQueries.topSimilarity),
+    })
+    .from(identificationQueries)
+    .innerJoin(audioFingerprints, eq(identificationQueries.topMatchId, audioFingerprints.id))
+    .where(and(inRange, isNotNull(identificationQueries.topMatchId)))
+    .groupBy(audioFingerprints.id)
+    .orderBy(desc(count()), asc(audioFingerprints.name))
+    .limit(MOST_MATCHED_LIMIT);
+
+  const byAlgorithmVersion = await db
+    .select({
+      algorithmVersion: identificationQueries.algorithmVersion,
+      queries: count(),
+      noMatches,
+      averageSimilarity: avg(identificationQueries.topSimilarity),
+    })
+    .from(identificationQueries)
+    .where(inRange)
+    .groupBy(identificationQueries.algorithmVersion)
+    .orderBy(asc(identificationQueries.algorithmVersion));
+
+  const latencies = (
+    await db
+      .select({ latencyMs: identificationQueries.latencyMs })
+      .from(identificationQueries)
+      .where(inRange)
+      .orderBy(asc(identificationQueries.latencyMs))
+  ).map((row) => row.latencyMs);
+
+  return {
+    queries: totals?.queries ?? 0,
+    noMatches: totals?.noMatches ?? 0,
+    daily,
+    mostMatched: mostMatched.map((row) => ({
+      ...row,
+      averageSimilarity: toAverage(row.averageSimilarity),
+    })),
+    byAlgorithmVersion: byAlgorithmVersion.map((row) => ({
+      ...row,
+      averageSimilarity: toAverage(row.averageSimilarity),
+    })),
+    latency: {
+      p50: percentile(latencies, 0.5),
+      p90: percentile(latencies, 0.9),
+      p99: percentile(latencies, 0.99),
+    },
+  };
+}
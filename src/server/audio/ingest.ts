@@ -0,0 +1,142 @@
+import { createHash } from "node:crypto";
+
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { ZodError } from "zod";
+
+import {
+  ANALYSIS_SAMPLE_RATE,
+  CURRENT_ALGORITHM,
+  extractChannelFeatures,
+  generateFingerprint,
+  generateStrategyFingerprints,
+} from "~/lib/audio";
+import {
+  IDENTIFY_CHANNEL_STRATEGY,
+  queryChannelStrategies,
+  type ChannelStrategy,
+} from "~/lib/channels";
+import { AudioDecodeError, decodeAudioFile } from "./decode";
+
+export interface AudioUpload {
+  bytes: Uint8Array;
+  /** Form fields for multipart uploads, or query parameters for raw binary bodies. */
+  fields: Record<string, string>;
+  fileName?: string;
+  /** Type of the uploaded file, or the Content-Type of a raw body. */
+  mimeType?: string;
+}
+
+/**
+ * Reads an upload sent either as `multipart/form-data` with the audio in a `file` field, or as a
+ * raw binary body with any other fields passed as query parameters.
+ */
+export async function readAudioUpload(request: Request): Promise<AudioUpload> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      throw new AudioDecodeError('Multipart uploads need the audio in a "file" field');
+    }
+
+    const fields: Record<string, string> = {};
+    form.forEach((value, key) => {
+      if (typeof value === "string") fields[key] = value;
+    });
+
+    return {
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      fields,
+      fileName: file instanceof File ? file.name : undefined,
+      mimeType: file.type || undefined,
+    };
+  }
+
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  if (bytes.byteLength === 0) {
+    throw new AudioDecodeError("Request body is empty");
+  }
+
+  return {
+    bytes,
+    fields: Object.fromEntries(new URL(request.url).searchParams),
+    mimeType: contentType || undefined,
+  };
+}
+
+/**
+ * Decodes and fingerprints an uploaded file the same way the record and identify pages do.
+ */
+export function analyzeAudioUpload(upload: AudioUpload, channelStrategy: ChannelStrategy) {
+  const audio = decodeUpload(upload);
+  const frameCount = audio.channels[0]!.length;
+
+  let features;
+  try {
+    features = extractChannelFeatures(audio.channels, audio.sampleRate, channelStrategy);
+  } catch (error) {
+    // Asking for a channel the file doesn't have
+    throw new AudioDecodeError(error instanceof Error ? error.message : String(error));
+  }
+
+  return {
+    features,
+    fingerprint: generateFingerprint(...features),
+    duration: frameCount / audio.sampleRate,
+    sampleRate: audio.sampleRate,
+    channelCount: audio.channels.length,
+    analysisSampleRate: ANALYSIS_SAMPLE_RATE,
+    ...CURRENT_ALGORITHM,
+    contentHash: hashAudioContent(upload.bytes),
+  };
+}
+
+/**
+ * Fingerprints an identification query with `IDENTIFY_CHANNEL_STRATEGY`, and a multichannel query
+ * also with the other strategies the library was fingerprinted with.
+ */
+export function analyzeQueryUpload(upload: AudioUpload, libraryStrategies: string[]) {
+  const audio = decodeUpload(upload);
+  const strategies = queryChannelStrategies(audio.channels.length, libraryStrategies);
+
+  return {
+    fingerprint: generateFingerprint(
+      ...extractChannelFeatures(audio.channels, audio.sampleRate, IDENTIFY_CHANNEL_STRATEGY)
+    ),
+    strategyFingerprints: generateStrategyFingerprints(
+      audio.channels,
+      audio.sampleRate,
+      strategies
+    ),
+    duration: audio.channels[0]!.length / audio.sampleRate,
+  };
+}
+
+function decodeUpload(upload: AudioUpload) {
+  const audio = decodeAudioFile(upload.bytes);
+  if ((audio.channels[0]?.length ?? 0) === 0) {
+    throw new AudioDecodeError("Audio file contains no samples");
+  }
+  return audio;
+}
+
+export function hashAudioContent(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export function audioErrorResponse(error: unknown): Response {
+  if (error instanceof AudioDecodeError) {
+    return Response.json({ error: error.message }, { status: error.unsupported ? 415 : 400 });
+  }
+  if (error instanceof ZodError) {
+    return Response.json({ error: "Invalid request", issues: error.flatten() }, { status: 400 });
+  }
+  if (error instanceof TRPCError) {
+    return Response.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+  }
+
+  console.error("❌ Audio request failed:", error);
+  return Response.json({ error: "Internal server error" }, { status: 500 });
+}
@@ -0,0 +1,247 @@
+/**
+ * Brings fingerprints made by an older extraction algorithm up to date by regenerating them from
+ * their stored audio. Extra reference recordings have fingerprints of their own and are brought up
+ * to date the same way.
+ */
+
+import { and, asc, desc, eq, gt, isNull, ne, or, sql } from "drizzle-orm";
+
+import { ALGORITHM_PARAMETERS, ALGORITHM_VERSION } from "~/lib/audio";
+import { LEGACY_CHANNEL_STRATEGY, parseChannelStrategy } from "~/lib/channels";
+import { type db as database } from "~/server/db";
+import { audioFingerprints, referenceRecordings, reindexJobs } from "~/server/db/schema";
+import { AudioDecodeError } from "./decode";
+import {
+  replaceFingerprint,
+  replaceRecordingFingerprint,
+  type RegeneratedFingerprint,
+} from "./fingerprints";
+import { analyzeAudioUpload } from "./ingest";
+import { readStoredAudio } from "./storage";
+
+type Database = typeof database;
+
+export type ReindexJob = typeof reindexJobs.$inferSelect;
+
+export interface ReindexOptions {
+  batchSize: number;
+  /** Called after every batch with the saved state of the job. */
+  onProgress?: (job: ReindexJob) => void;
+}
+
+interface StaleRow {
+  id: number;
+  audioFile: string | null;
+  channelStrategy: string | null;
+}
+
+type BatchProgress = Pick<
+  ReindexJob,
+  "reindexed" | "skipped" | "unsupported" | "failed" | "lastError"
+>;
+
+function isStale(table: typeof audioFingerprints | typeof referenceRecordings) {
+  return or(
+    isNull(table.algorithmVersion),
+    isNull(table.algorithmParameters),
+    ne(table.algorithmVersion, ALGORITHM_VERSION),
+    ne(table.algorithmParameters, ALGORITHM_PARAMETERS)
+  );
+}
+
+/**
+ * Counts the fingerprints and extra reference recordings made by an older algorithm.
+ */
+export async function countStaleFingerprints(db: Database): Promise<number> {
+  const [fingerprints] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(audioFingerprints)
+    .where(isStale(audioFingerprints));
+  const [recordings] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(referenceRecordings)
+    .where(isStale(referenceRecordings));
+  return (fingerprints?.count ?? 0) + (recordings?.count ?? 0);
+}
+
+export async function getLatestReindexJob(db: Database) {
+  return await db.query.reindexJobs.findFirst({ orderBy: desc(reindexJobs.id) });
+}
+
+/**
+ * The most recent job that was interrupted before finishing, if it targets the current algorithm.
+ */
+export async function findResumableReindexJob(db: Database) {
+  return await db.query.reindexJobs.findFirst({
+    where: and(
+      eq(reindexJobs.status, "running"),
+      eq(reindexJobs.algorithmVersion, ALGORITHM_VERSION),
+      eq(reindexJobs.algorithmParameters, ALGORITHM_PARAMETERS)
+    ),
+    orderBy: desc(reindexJobs.id),
+  });
+}
+
+export async function createReindexJob(db: Database): Promise<ReindexJob> {
+  const [job] = await db
+    .insert(reindexJobs)
+    .values({
+      status: "running",
+      algorithmVersion: ALGORITHM_VERSION,
+      algorithmParameters: ALGORITHM_PARAMETERS,
+      total: await countStaleFingerprints(db),
+    })
+    .returning();
+  if (!job) throw new Error("Failed to create reindex job");
+  return job;
+}
+
+/**
+ * Regenerates every outdated fingerprint after the job's last processed row, then every outdated
+ * reference recording, saving progress after each batch. Rows are visited in id order, so a failing
+ * row is recorded once and not retried until the next job.
+ */
+export async function runReindexJob(
+  db: Database,
+  jobId: number,
+  options: ReindexOptions
+): Promise<ReindexJob> {
+  let job = await db.query.reindexJobs.findFirst({ where: eq(reindexJobs.id, jobId) });
+  if (!job) throw new Error(`Reindex job ${jobId} does not exist`);
+
+  try {
+    for (;;) {
+      const rows = await db
+        .select({
+          id: audioFingerprints.id,
+          audioFile: audioFingerprints.audioFile,
+          channelStrategy: audioFingerprints.channelStrategy,
+        })
+        .from(audioFingerprints)
+        .where(and(isStale(audioFingerprints), gt(audioFingerprints.id, job.lastFingerprintId)))
+        .orderBy(asc(audioFingerprints.id))
+        .limit(options.batchSize);
+      if (rows.length === 0) break;
+
+      const progress = await reindexBatch(rows, job.lastError, {
+        describe: (row) => `Fingerprint ${row.id}`,
+        replace: (row, regenerated) => replaceFingerprint(db, row.id, regenerated),
+      });
+      job = await saveProgress(db, job, progress, { lastFingerprintId: rows[rows.length - 1]!.id });
+      options.onProgress?.(job);
+    }
+
+    for (;;) {
+      const rows = await db
+        .select({
+          id: referenceRecordings.id,
+          fingerprintId: referenceRecordings.fingerprintId,
+          audioFile: referenceRecordings.audioFile,
+          channelStrategy: referenceRecordings.channelStrategy,
+        })
+        .from(referenceRecordings)
+        .where(and(isStale(referenceRecordings), gt(referenceRecordings.id, job.lastRecordingId)))
+        .orderBy(asc(referenceRecordings.id))
+        .limit(options.batchSize);
+      if (rows.length === 0) break;
+
+      const progress = await reindexBatch(rows, job.lastError, {
+        describe: (row) => `Fingerprint ${row.fingerprintId} recording ${row.id}`,
+        replace: (row, regenerated) =>
+          replaceRecordingFingerprint(db, row.fingerprintId, row.id, regenerated),
+      });
+      job = await saveProgress(db, job, progress, { lastRecordingId: rows[rows.length - 1]!.id });
+      options.onProgress?.(job);
+    }
+
+    return await updateJob(db, job.id, { status: "completed", completedAt: new Date() });
+  } catch (error) {
+    await updateJob(db, job.id, {
+      status: "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Regenerates one batch of rows from their stored audio.
+ */
+async function reindexBatch<Row extends StaleRow>(
+  rows: Row[],
+  lastError: string | null,
+  table: {
+    /** How a row is named in errors. */
+    describe: (row: Row) => string;
+    replace: (row: Row, regenerated: RegeneratedFingerprint) => Promise<void>;
+  }
+): Promise<BatchProgress> {
+  const progress = { reindexed: 0, skipped: 0, unsupported: 0, failed: 0, lastError };
+  for (const row of rows) {
+    if (!row.audioFile) {
+      progress.skipped++;
+      continue;
+    }
+
+    try {
+      const bytes = await readStoredAudio(row.audioFile);
+      const channelStrategy = row.channelStrategy
+        ? parseChannelStrategy(row.channelStrategy)
+        : LEGACY_CHANNEL_STRATEGY;
+      if (!channelStrategy) {
+        throw new Error(`Unknown channel strategy: ${row.channelStrategy}`);
+      }
+
+      const analysis = analyzeAudioUpload({ bytes, fields: {} }, channelStrategy);
+      await table.replace(row, {
+        fingerprint: analysis.fingerprint,
+        analysisSampleRate: analysis.analysisSampleRate,
+        algorithmVersion: analysis.algorithmVersion,
+        algorithmParameters: analysis.algorithmParameters,
+      });
+      progress.reindexed++;
+    } catch (error) {
+      // Audio the server can't decode, such as browser recordings, can't be regenerated here.
+      // Unlike rows without audio, these are reported: the entry stays stale
+      if (error instanceof AudioDecodeError && error.unsupported) {
+        progress.unsupported++;
+      } else {
+        progress.failed++;
+      }
+      progress.lastError = `${table.describe(row)}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    }
+  }
+  return progress;
+}
+
+async function saveProgress(
+  db: Database,
+  job: ReindexJob,
+  progress: BatchProgress,
+  cursor: Partial<Pick<ReindexJob, "lastFingerprintId" | "lastRecordingId">>
+): Promise<ReindexJob> {
+  return await updateJob(db, job.id, {
+    reindexed: job.reindexed + progress.reindexed,
+    skipped: job.skipped + progress.skipped,
+    unsupported: job.unsupported + progress.unsupported,
+    failed: job.failed + progress.failed,
+    lastError: progress.lastError,
+    ...cursor,
+  });
+}
+
+async function updateJob(
+  db: Database,
+  id: number,
+  changes: Partial<Omit<ReindexJob, "id" | "createdAt" | "updatedAt">>
+): Promise<ReindexJob> {
+  const [job] = await db
+    .update(reindexJobs)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(reindexJobs.id, id))
+    .returning();
+  if (!job) throw new Error(`Reindex job ${id} does not exist`);
+  return job;
+}
@@ -0,0 +1,105 @@
+/**
+ * Keeps the original audio of enrolled fingerprints on local disk, so matches can be played back
+ * and references re-fingerprinted later.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { TRPCError } from "@trpc/server";
+
+import { env } from "~/env";
+
+export interface AudioFile {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface StoredAudio {
+  /** File name inside the storage directory. */
+  file: string;
+  mimeType: string;
+}
+
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/wav": ".wav",
+  "audio/wave": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/webm": ".webm",
+  "audio/ogg": ".ogg",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/aac": ".aac",
+  "audio/flac": ".flac",
+};
+
+function storageDirectory(): string {
+  return path.resolve(env.AUDIO_STORAGE_DIR);
+}
+
+/**
+ * Normalizes a Content-Type header or `Blob.type` to a bare MIME type.
+ */
+export function normalizeMimeType(type: string | null | undefined): string {
+  const mimeType = type?.split(";")[0]?.trim().toLowerCase();
+  // Browsers report an empty type for blobs they can't classify
+  if (!mimeType) return DEFAULT_MIME_TYPE;
+  return mimeType;
+}
+
+export async function storeAudio(audio: AudioFile): Promise<StoredAudio> {
+  const mimeType = normalizeMimeType(audio.mimeType);
+  // Names are random rather than content hashes, so deleting one record never removes audio
+  // another record still points to
+  const file = `${randomUUID()}${EXTENSIONS[mimeType] ?? ".bin"}`;
+
+  await mkdir(storageDirectory(), { recursive: true });
+  await writeFile(path.join(storageDirectory(), file), audio.bytes);
+  return { file, mimeType };
+}
+
+/**
+ * Absolute path of a stored file. Throws if the name would resolve outside the storage directory.
+ */
+export function resolveStoredAudio(file: string): string {
+  const directory = storageDirectory();
+  const resolved = path.resolve(directory, file);
+  if (path.dirname(resolved) !== directory) {
+    throw new Error(`Invalid stored audio file name: ${file}`);
+  }
+  return resolved;
+}
+
+/**
+ * A stored file that has gone missing from disk is reported as not found rather than as a server
+ * error; the record pointing to it is still there.
+ */
+function rethrowMissing(error: unknown, file: string): never {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Stored audio ${file} is missing` });
+  }
+  throw error;
+}
+
+export async function getStoredAudioSize(file: string): Promise<number> {
+  try {
+    return (await stat(resolveStoredAudio(file))).size;
+  } catch (error) {
+    rethrowMissing(error, file);
+  }
+}
+
+export async function readStoredAudio(file: string): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await readFile(resolveStoredAudio(file)));
+  } catch (error) {
+    rethrowMissing(error, file);
+  }
+}
+
+export async function deleteStoredAudio(file: string): Promise<void> {
+  await rm(resolveStoredAudio(file), { force: true });
+}
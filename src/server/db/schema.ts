@@ -2,7 +2,15 @@
 // https://orm.drizzle.team/docs/sql-schema-declaration
 
 import { sql } from "drizzle-orm";
-import { index, int, sqliteTableCreator, text, integer, sqliteTable } from "drizzle-orm/sqlite-core";
+import {
+  index,
+  int,
+  integer,
+  primaryKey,
+  real,
+  sqliteTableCreator,
+  text,
+} from "drizzle-orm/sqlite-core";
 
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
@@ -36,15 +44,217 @@ export const audioFingerprints = createTable(
     name: text("name").notNull(),
     fingerprint: text("fingerprint").notNull(),
     duration: integer("duration").notNull(),
+    description: text("description"),
+    category: text("category"),
+    sourceFilename: text("source_filename"),
+    // Sample rate and channel count of the source audio, before resampling or downmixing
+    sampleRate: integer("sample_rate"),
+    channelCount: integer("channel_count"),
+    // Rate the audio was resampled to before feature extraction; null for rows enrolled before
+    // resampling was added
+    analysisSampleRate: integer("analysis_sample_rate"),
+    // Serialized `ChannelStrategy`; null for rows fingerprinted from the first channel only
+    channelStrategy: text("channel_strategy"),
+    // Serialized `EffectChain` the audio was processed with before fingerprinting; the stored audio
+    // is the processed version. Null if it wasn't processed
+    effectChain: text("effect_chain"),
+    contentHash: text("content_hash"),
+    // `ALGORITHM_VERSION` and `ALGORITHM_PARAMETERS` the fingerprint was made with; null for rows
+    // enrolled before they were recorded
+    algorithmVersion: integer("algorithm_version"),
+    algorithmParameters: text("algorithm_parameters"),
+    // Original audio, as a file name inside `AUDIO_STORAGE_DIR`; null if it wasn't kept
+    audioFile: text("audio_file"),
+    audioMimeType: text("audio_mime_type"),
     createdAt: integer("created_at", { mode: "timestamp" })
-      .default(sql`CURRENT_TIMESTAMP`)
+      .default(sql`(unixepoch())`)
       .notNull(),
     updatedAt: integer("updated_at", { mode: "timestamp" })
-      .default(sql`CURRENT_TIMESTAMP`)
+      .default(sql`(unixepoch())`)
       .notNull(),
   },
   (table) => ({
     nameIndex: index("audio_name_idx").on(table.name),
     fingerprintIndex: index("audio_fingerprint_idx").on(table.fingerprint),
+    contentHashIndex: index("audio_content_hash_idx").on(table.contentHash),
+    categoryIndex: index("audio_category_idx").on(table.category),
+    createdAtIndex: index("audio_created_at_idx").on(table.createdAt),
+  })
+);
+
+export const fingerprintTags = createTable(
+  "fingerprint_tags",
+  {
+    fingerprintId: integer("fingerprint_id")
+      .notNull()
+      .references(() => audioFingerprints.id, { onDelete: "cascade" }),
+    tag: text("tag").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.fingerprintId, table.tag] }),
+    tagIndex: index("fingerprint_tag_idx").on(table.tag),
+  })
+);
+
+/**
+ * Further recordings of a sound that is already in the library, such as the same door slam recorded
+ * in another room. Each is fingerprinted and identified on its own, and a match on any of them is a
+ * match on the entry they belong to.
+ */
+export const referenceRecordings = createTable(
+  "reference_recordings",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    fingerprintId: integer("fingerprint_id")
+      .notNull()
+      .references(() => audioFingerprints.id, { onDelete: "cascade" }),
+    fingerprint: text("fingerprint").notNull(),
+    duration: integer("duration").notNull(),
+    sourceFilename: text("source_filename"),
+    sampleRate: integer("sample_rate"),
+    channelCount: integer("channel_count"),
+    analysisSampleRate: integer("analysis_sample_rate"),
+    channelStrategy: text("channel_strategy"),
+    effectChain: text("effect_chain"),
+    contentHash: text("content_hash"),
+    algorithmVersion: integer("algorithm_version"),
+    algorithmParameters: text("algorithm_parameters"),
+    audioFile: text("audio_file"),
+    audioMimeType: text("audio_mime_type"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    fingerprintIdIndex: index("reference_recording_fingerprint_id_idx").on(table.fingerprintId),
+  })
+);
+
+/**
+ * Inverted index of landmark hashes, so identification only has to look at fingerprints that share
+ * at least one hash with the query.
+ */
+export const fingerprintHashes = createTable(
+  "fingerprint_hashes",
+  {
+    hash: integer("hash").notNull(),
+    fingerprintId: integer("fingerprint_id")
+      .notNull()
+      .references(() => audioFingerprints.id, { onDelete: "cascade" }),
+    // Set for hashes of an extra reference recording, null for the entry's own fingerprint
+    recordingId: integer("recording_id").references(() => referenceRecordings.id, {
+      onDelete: "cascade",
+    }),
+    anchorTime: integer("anchor_time").notNull(),
+  },
+  (table) => ({
+    hashIndex: index("fingerprint_hash_idx").on(table.hash),
+    fingerprintIdIndex: index("fingerprint_hash_fingerprint_id_idx").on(table.fingerprintId),
+  })
+);
+
+/**
+ * Runs that regenerate outdated fingerprints from their stored audio. Progress is saved after every
+ * batch, so an interrupted job can pick up after the last fingerprint it handled.
+ */
+export const reindexJobs = createTable("reindex_jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  status: text("status", { enum: ["running", "completed", "failed"] }).notNull(),
+  // Algorithm the job brings fingerprints up to
+  algorithmVersion: integer("algorithm_version").notNull(),
+  algorithmParameters: text("algorithm_parameters").notNull(),
+  total: integer("total").notNull(),
+  reindexed: integer("reindexed").default(0).notNull(),
+  // Rows without stored audio, which can't be regenerated
+  skipped: integer("skipped").default(0).notNull(),
+  // Rows whose stored audio is in a format the server can't decode, such as browser recordings
+  unsupported: integer("unsupported").default(0).notNull(),
+  failed: integer("failed").default(0).notNull(),
+  lastFingerprintId: integer("last_fingerprint_id").default(0).notNull(),
+  // Extra reference recordings are reindexed after every fingerprint
+  lastRecordingId: integer("last_recording_id").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
+/**
+ * Runs that check every fingerprint against the rest of the library for duplicates. Like reindex
+ * jobs, progress is saved after every batch so an interrupted scan can be resumed.
+ */
+export const duplicateScans = createTable("duplicate_scans", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  status: text("status", { enum: ["running", "completed", "failed"] }).notNull(),
+  total: integer("total").notNull(),
+  scanned: integer("scanned").default(0).notNull(),
+  failed: integer("failed").default(0).notNull(),
+  lastFingerprintId: integer("last_fingerprint_id").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
+/**
+ * Pairs of entries a duplicate scan found to be the same sound, stored once with the lower id
+ * first. Either entry can find the other, so the strongest evidence from both directions is kept.
+ */
+export const duplicatePairs = createTable(
+  "duplicate_pairs",
+  {
+    scanId: integer("scan_id")
+      .notNull()
+      .references(() => duplicateScans.id, { onDelete: "cascade" }),
+    fingerprintId: integer("fingerprint_id")
+      .notNull()
+      .references(() => audioFingerprints.id, { onDelete: "cascade" }),
+    duplicateId: integer("duplicate_id")
+      .notNull()
+      .references(() => audioFingerprints.id, { onDelete: "cascade" }),
+    similarity: real("similarity").notNull(),
+    falsePositiveRate: real("false_positive_rate").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.scanId, table.fingerprintId, table.duplicateId] }),
+    duplicateIndex: index("duplicate_pair_duplicate_id_idx").on(table.duplicateId),
+  })
+);
+
+/**
+ * One row per identification request, to track recognition quality over time.
+ */
+export const identificationQueries = createTable(
+  "identification_queries",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    // Where the query came from: the identify page, live listening or the HTTP API
+    source: text("source", { enum: ["record", "live", "api"] }).notNull(),
+    // Seconds of audio in the query; null when the client didn't say
+    queryDuration: real("query_duration"),
+    matched: integer("matched", { mode: "boolean" }).notNull(),
+    matchCount: integer("match_count").notNull(),
+    topMatchId: integer("top_match_id").references(() => audioFingerprints.id, {
+      onDelete: "set null",
+    }),
+    topSimilarity: real("top_similarity"),
+    latencyMs: real("latency_ms").notNull(),
+    // Algorithm the query was made with, so quality can be compared across tuning changes
+    algorithmVersion: integer("algorithm_version").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    createdAtIndex: index("identification_query_created_at_idx").on(table.createdAt),
+    topMatchIndex: index("identification_query_top_match_idx").on(table.topMatchId),
   })
 );
@@ -0,0 +1,36 @@
+/**
+ * Converts the timestamps of fingerprints enrolled before they were stored as Unix epoch seconds.
+ * Those rows kept the `CURRENT_TIMESTAMP` text they were created with, which reads back as an
+ * invalid date and sorts after every converted row whatever its time.
+ */
+
+import { sql } from "drizzle-orm";
+
+import { type db as database } from "~/server/db";
+import { audioFingerprints } from "~/server/db/schema";
+
+type Database = typeof database;
+
+export interface TimestampConversion {
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Rewrites every text `created_at` and `updated_at` of the fingerprints table as epoch seconds,
+ * returning how many of each were converted. Safe to run again: converted rows are left alone.
+ */
+export async function convertLegacyTimestamps(db: Database): Promise<TimestampConversion> {
+  const { createdAt, updatedAt } = audioFingerprints;
+
+  const created = await db
+    .update(audioFingerprints)
+    .set({ createdAt: sql`unixepoch(${createdAt})` })
+    .where(sql`typeof(${createdAt}) = 'text' and unixepoch(${createdAt}) is not null`);
+  const updated = await db
+    .update(audioFingerprints)
+    .set({ updatedAt: sql`unixepoch(${updatedAt})` })
+    .where(sql`typeof(${updatedAt}) = 'text' and unixepoch(${updatedAt}) is not null`);
+
+  return { createdAt: created.rowsAffected, updatedAt: updated.rowsAffected };
+}
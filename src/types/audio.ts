@@ -3,6 +3,19 @@ export interface AudioFingerprint {
   name: string;
   fingerprint: string;
   duration: number;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  sourceFilename: string | null;
+  sampleRate: number | null;
+  channelCount: number | null;
+  analysisSampleRate: number | null;
+  channelStrategy: string | null;
+  effectChain: string | null;
+  contentHash: string | null;
+  audioMimeType: string | null;
+  algorithmVersion: number | null;
+  algorithmParameters: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -11,11 +24,87 @@ export interface AudioMatch {
   id: number;
   name: string;
   duration: number;
+  /**
+   * Extra reference recording of the entry that matched, or null if the query matched the entry's
+   * own fingerprint. `duration`, `offsetSeconds`, `hasAudio` and `stale` describe that recording.
+   */
+  recordingId: number | null;
+  /** Whether the original audio of the reference is stored and can be played back. */
+  hasAudio: boolean;
+  /** Made by an older algorithm and not reindexed yet, so its similarity was down-weighted. */
+  stale: boolean;
   similarity: number;
+  /** Where in the reference the query starts, in seconds. */
+  offsetSeconds: number;
+  /** Number of query hashes in the largest time-aligned cluster. */
+  alignedHashCount: number;
+  /**
+   * Probability that a match at least this strong turns up somewhere in the library by chance.
+   * Unlike `similarity`, it accounts for query length, library size and how many hashes match at
+   * random, so a threshold means the same thing for every query.
+   */
+  falsePositiveRate: number;
+  /** `1 - falsePositiveRate`. */
+  confidence: number;
+  /**
+   * Pitch and tempo of the query relative to the reference, estimated when identifying with a
+   * scale search; null otherwise.
+   */
+  scale: PlaybackScale | null;
+}
+
+/** Pitch and tempo of a recording relative to the original: 1.05 is 5% higher or faster. */
+export interface PlaybackScale {
+  pitchFactor: number;
+  tempoFactor: number;
+}
+
+/**
+ * A sound found in one stretch of a long query. Scores are those of the strongest window it was
+ * found in, and `offsetSeconds` is where in the reference `startSeconds` falls.
+ */
+export interface TimelineDetection extends AudioMatch {
+  /** Where the sound starts in the query, in seconds. */
+  startSeconds: number;
+  /** Where the sound ends in the query, in seconds. */
+  endSeconds: number;
+}
+
+export interface FingerprintComparison {
+  similarity: number;
+  offsetSeconds: number;
+  alignedHashCount: number;
+  /**
+   * Every hash the query shares with the reference, aligned or not. Null for legacy comparisons,
+   * which don't vote on offsets.
+   */
+  hashMatchCount: number | null;
+  /**
+   * First and last anchor of the aligned query hashes, in seconds from the start of the query. Null
+   * when nothing lined up or for legacy comparisons.
+   */
+  alignedQuerySpan: { start: number; end: number } | null;
 }
 
 export interface AudioFeatures {
   peaks: number[];
   frequencies: number[];
   timestamps: number[];
-} 
\ No newline at end of file
+}
+
+export interface SpectralPeak {
+  amplitude: number;
+  frequency: number;
+  time: number;
+}
+
+export interface Landmark {
+  /** Packed (f1, f2, Δt) hash of an anchor peak and one peak in its target zone. */
+  hash: number;
+  /** Time of the anchor peak, in 10ms ticks from the start of the recording. */
+  anchorTime: number;
+}
+
+export type ParsedFingerprint =
+  | { version: 1; features: AudioFeatures }
+  | { version: 2; landmarks: Landmark[] };
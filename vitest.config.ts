@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const src = fileURLToPath(new URL("./src", import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: { "~": src, "@": src },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});